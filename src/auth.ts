@@ -0,0 +1,246 @@
+import { ApiKey, ApiKeyScope, AuthUser, CloudflareBindings, Invite, User } from './types';
+import { hashPassword, listKeys, timingSafeEqual, verifyPassword } from './utils';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['push', 'yank', 'read'];
+
+const USERNAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]{0,38}$/;
+const MIN_PASSWORD_LENGTH = 8;
+const INVITE_TTL_SECONDS = 7 * 24 * 60 * 60;
+const PBKDF2_ITERATIONS = 100000; // the most the Workers runtime allows
+const PBKDF2_SALT_BYTES = 16;
+
+// Check a username/password pair and return the matching user
+export async function verifyCredentials(env: CloudflareBindings, username: string, password: string): Promise<AuthUser | null> {
+  if (!username || !password) {
+    return null;
+  }
+
+  // The env-var admin is kept as a bootstrap account so the server can never be locked out
+  if (username === env.ADMIN_USERNAME && env.ADMIN_PASSWORD_HASH) {
+    if (await verifyPassword(password, env.ADMIN_PASSWORD_HASH)) {
+      return { username, isAdmin: true };
+    }
+    return null;
+  }
+
+  const user = await getUser(env.GEMFLARE_KV, username);
+  if (!user || user.disabled || !await verifyUserPassword(password, user.passwordHash)) {
+    return null;
+  }
+
+  return { username: user.username, isAdmin: user.isAdmin };
+}
+
+// Resolve a username to an active user, e.g. the owner of an API key
+export async function findUser(env: CloudflareBindings, username: string): Promise<AuthUser | null> {
+  if (username === env.ADMIN_USERNAME && env.ADMIN_PASSWORD_HASH) {
+    return { username, isAdmin: true };
+  }
+
+  const user = await getUser(env.GEMFLARE_KV, username);
+  if (!user || user.disabled) {
+    return null;
+  }
+
+  return { username: user.username, isAdmin: user.isAdmin };
+}
+
+// Decode an HTTP Basic Authorization header into its username and password
+export function parseBasicAuth(authHeader: string): { username: string; password: string } | null {
+  try {
+    const credentials = atob(authHeader.replace(/^Basic\s+/i, ''));
+    const separator = credentials.indexOf(':');
+    if (separator === -1) {
+      return null;
+    }
+
+    return {
+      username: credentials.slice(0, separator),
+      password: credentials.slice(separator + 1)
+    };
+  } catch (e) {
+    return null;
+  }
+}
+
+// User utilities
+export function validateUsername(username: string): string | null {
+  if (!USERNAME_PATTERN.test(username)) {
+    return 'Usernames must start with a letter or digit and contain only letters, digits, ".", "_" or "-".';
+  }
+  return null;
+}
+
+export function validatePassword(password: string): string | null {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters long.`;
+  }
+  return null;
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) || []).map(byte => parseInt(byte, 16)));
+
+async function pbkdf2(password: string, salt: Uint8Array, iterations: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: salt.buffer as ArrayBuffer, iterations }, key, 256);
+  return toHex(new Uint8Array(bits));
+}
+
+// Hash a user's password with a random salt, stored as pbkdf2$<iterations>$<salt>$<hash>
+export async function hashUserPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(PBKDF2_SALT_BYTES));
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toHex(salt)}$${await pbkdf2(password, salt, PBKDF2_ITERATIONS)}`;
+}
+
+// Check a password against a stored pbkdf2$ user hash
+async function verifyUserPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'pbkdf2' || !salt || !hash) {
+    return false;
+  }
+
+  return timingSafeEqual(await pbkdf2(password, fromHex(salt), parseInt(iterations, 10)), hash);
+}
+
+export async function getUser(kv: KVNamespace, username: string): Promise<User | null> {
+  return await kv.get(`user:${username}`, 'json') as User | null;
+}
+
+export async function saveUser(kv: KVNamespace, user: User): Promise<void> {
+  console.log(`Saving user ${user.username}`);
+  await kv.put(`user:${user.username}`, JSON.stringify(user));
+}
+
+export async function createUser(kv: KVNamespace, username: string, password: string, isAdmin: boolean): Promise<User> {
+  const user: User = {
+    username,
+    passwordHash: await hashUserPassword(password),
+    isAdmin,
+    createdAt: new Date().toISOString()
+  };
+
+  await saveUser(kv, user);
+  return user;
+}
+
+export async function listUsers(kv: KVNamespace): Promise<User[]> {
+  const users: User[] = [];
+
+  for (const key of await listKeys(kv, 'user:')) {
+    const user = await kv.get(key, 'json') as User;
+    if (user) {
+      users.push(user);
+    }
+  }
+
+  users.sort((a, b) => a.username.localeCompare(b.username));
+
+  return users;
+}
+
+export async function createInvite(kv: KVNamespace, username: string, isAdmin: boolean, invitedBy: string): Promise<Invite> {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const invite: Invite = {
+    token: Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join(''),
+    username,
+    isAdmin,
+    invitedBy,
+    createdAt: new Date().toISOString()
+  };
+
+  console.log(`Creating invite for ${username} from ${invitedBy}`);
+  await kv.put(`invite:${invite.token}`, JSON.stringify(invite), { expirationTtl: INVITE_TTL_SECONDS });
+
+  return invite;
+}
+
+export async function getInvite(kv: KVNamespace, token: string): Promise<Invite | null> {
+  return await kv.get(`invite:${token}`, 'json') as Invite | null;
+}
+
+export async function deleteInvite(kv: KVNamespace, token: string): Promise<void> {
+  await kv.delete(`invite:${token}`);
+}
+
+// API key utilities
+function generateApiKey(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return 'gemflare_' + Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function createApiKey(
+  kv: KVNamespace,
+  username: string,
+  name: string,
+  scopes: ApiKeyScope[],
+  expiresAt?: string
+): Promise<{ key: string; apiKey: ApiKey }> {
+  const key = generateApiKey();
+  const apiKey: ApiKey = {
+    id: await hashPassword(key),
+    name,
+    username,
+    scopes,
+    created_at: new Date().toISOString(),
+    expires_at: expiresAt
+  };
+
+  console.log(`Creating API key "${name}" for ${username} with scopes: ${scopes.join(', ')}`);
+  await kv.put(`apikey:${apiKey.id}`, JSON.stringify(apiKey));
+
+  return { key, apiKey };
+}
+
+// Look up an API key by its plain-text value, ignoring expired keys
+export async function findApiKey(kv: KVNamespace, key: string): Promise<ApiKey | null> {
+  const id = await hashPassword(key);
+  const apiKey = await kv.get(`apikey:${id}`, 'json') as ApiKey | null;
+
+  if (!apiKey) {
+    return null;
+  }
+
+  if (apiKey.expires_at && new Date(apiKey.expires_at).getTime() < Date.now()) {
+    console.log(`API key "${apiKey.name}" for ${apiKey.username} has expired`);
+    return null;
+  }
+
+  return apiKey;
+}
+
+export async function updateApiKeyScopes(kv: KVNamespace, apiKey: ApiKey, scopes: ApiKeyScope[]): Promise<ApiKey> {
+  const updated = { ...apiKey, scopes: API_KEY_SCOPES.filter(scope => scopes.includes(scope)) };
+  await kv.put(`apikey:${apiKey.id}`, JSON.stringify(updated));
+  return updated;
+}
+
+export async function listApiKeys(kv: KVNamespace, username: string): Promise<ApiKey[]> {
+  const apiKeys: ApiKey[] = [];
+
+  for (const key of await listKeys(kv, 'apikey:')) {
+    const apiKey = await kv.get(key, 'json') as ApiKey;
+    if (apiKey && apiKey.username === username) {
+      apiKeys.push(apiKey);
+    }
+  }
+
+  apiKeys.sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  return apiKeys;
+}
+
+export async function revokeApiKey(kv: KVNamespace, username: string, id: string): Promise<boolean> {
+  const apiKey = await kv.get(`apikey:${id}`, 'json') as ApiKey | null;
+
+  if (!apiKey || apiKey.username !== username) {
+    return false;
+  }
+
+  console.log(`Revoking API key "${apiKey.name}" for ${username}`);
+  await kv.delete(`apikey:${id}`);
+
+  return true;
+}
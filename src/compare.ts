@@ -0,0 +1,279 @@
+import { CloudflareBindings, GemMetadata } from './types';
+import { gemObjectKey, readGemDataFiles } from './utils';
+import { FILE_VIEW_MAX_SIZE, decodeText } from './contents';
+import { gemVersionSlug } from './gemspec';
+
+// Compare two versions of a gem: the files of both packages' data.tar.gz, with unified diffs for
+// text files, and the changes to dependencies and gemspec fields.
+
+const DIFF_CONTEXT_LINES = 3;
+const DIFF_MAX_EDITS = 2000; // per file; larger diffs are left out
+const DIFF_MAX_TOTAL_SIZE = 1024 * 1024; // patches past this total are left out
+
+export interface FileChange {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  binary: boolean;
+  from_size?: number;
+  to_size?: number;
+  additions: number;
+  deletions: number;
+  patch?: string; // unified diff; missing for binary files and diffs that are too large
+}
+
+export interface DependencyChange {
+  name: string;
+  type: 'runtime' | 'development';
+  status: 'added' | 'removed' | 'changed';
+  from?: string;
+  to?: string;
+}
+
+export interface MetadataChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface GemComparison {
+  name: string;
+  from: string; // version slugs, e.g. "1.16.0-x86_64-linux"
+  to: string;
+  files: FileChange[];
+  unchanged_files: number;
+  dependencies: DependencyChange[];
+  metadata: MetadataChange[];
+}
+
+// A version range in a compare URL, e.g. "1.0.0...1.1.0"
+export function parseCompareRange(range: string): { from: string; to: string } | null {
+  const separator = range.indexOf('...');
+  if (separator <= 0 || separator + 3 >= range.length) {
+    return null;
+  }
+
+  return { from: range.slice(0, separator), to: range.slice(separator + 3) };
+}
+
+type DiffOp = [' ' | '-' | '+', string];
+
+// Myers' diff of two line arrays, or null when they differ by more than maxEdits lines. Only the
+// part of each round's furthest-reaching array that the round reads is kept for the backtrack.
+function diffLines(a: string[], b: string[], maxEdits: number): DiffOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m + 1;
+  const v = new Int32Array(2 * offset + 1);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(n + m, maxEdits); d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffOp[] {
+  const ops: DiffOp[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      ops.push([' ', a[--x]]);
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) {
+        ops.push(['+', b[--y]]);
+      } else {
+        ops.push(['-', a[--x]]);
+      }
+    }
+  }
+
+  return ops.reverse();
+}
+
+const splitLines = (text: string) => text === '' ? [] : text.replace(/\n$/, '').split('\n');
+
+// Group diff operations into unified diff hunks with a few lines of context
+function unifiedDiff(path: string, ops: DiffOp[], status: FileChange['status']): string {
+  const changed = ops.map((op, i) => op[0] !== ' ' ? i : -1).filter(i => i !== -1);
+  const hunks: string[] = [];
+
+  let index = 0;
+  while (index < changed.length) {
+    const start = Math.max(0, changed[index] - DIFF_CONTEXT_LINES);
+    let end = changed[index];
+    while (index < changed.length && changed[index] - end <= 2 * DIFF_CONTEXT_LINES) {
+      end = changed[index++];
+    }
+    end = Math.min(ops.length, end + DIFF_CONTEXT_LINES + 1);
+
+    // Line numbers where the hunk starts in each file
+    const before = ops.slice(0, start);
+    const oldStart = before.filter(op => op[0] !== '+').length + 1;
+    const newStart = before.filter(op => op[0] !== '-').length + 1;
+    const lines = ops.slice(start, end);
+    const oldCount = lines.filter(op => op[0] !== '+').length;
+    const newCount = lines.filter(op => op[0] !== '-').length;
+
+    hunks.push(`@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@`);
+    hunks.push(...lines.map(([type, line]) => `${type}${line}`));
+  }
+
+  const oldPath = status === 'added' ? '/dev/null' : `a/${path}`;
+  const newPath = status === 'removed' ? '/dev/null' : `b/${path}`;
+  return [`--- ${oldPath}`, `+++ ${newPath}`, ...hunks].join('\n') + '\n';
+}
+
+function compareFile(path: string, oldData: Buffer | undefined, newData: Buffer | undefined): FileChange {
+  const status = !oldData ? 'added' : !newData ? 'removed' : 'modified';
+  const oldText = oldData ? decodeText(oldData) : '';
+  const newText = newData ? decodeText(newData) : '';
+  const change: FileChange = {
+    path,
+    status,
+    binary: oldText === null || newText === null,
+    from_size: oldData?.length,
+    to_size: newData?.length,
+    additions: 0,
+    deletions: 0
+  };
+
+  if (oldText === null || newText === null || (oldData?.length || 0) > FILE_VIEW_MAX_SIZE || (newData?.length || 0) > FILE_VIEW_MAX_SIZE) {
+    return change;
+  }
+
+  const ops = diffLines(splitLines(oldText), splitLines(newText), DIFF_MAX_EDITS);
+  if (ops) {
+    change.additions = ops.filter(op => op[0] === '+').length;
+    change.deletions = ops.filter(op => op[0] === '-').length;
+    change.patch = unifiedDiff(path, ops, status);
+  }
+
+  return change;
+}
+
+async function readGemFiles(env: CloudflareBindings, gem: GemMetadata): Promise<Map<string, Buffer>> {
+  const object = await env.GEMFLARE_BUCKET.get(gemObjectKey(gem.name, gem.version, gem.platform));
+  if (!object) {
+    throw new Error(`The gem file of ${gem.name} ${gem.version} is missing`);
+  }
+
+  const files = await readGemDataFiles(await object.arrayBuffer());
+  return new Map(files.map(file => [file.path, file.data]));
+}
+
+function compareDependencies(from: GemMetadata, to: GemMetadata): DependencyChange[] {
+  // Dependencies stored without a type are runtime dependencies
+  const byKey = (gem: GemMetadata) => new Map((gem.dependencies || []).map(dep => {
+    const type = dep.type || 'runtime';
+    return [`${type}:${dep.name}`, { name: dep.name, type, requirements: dep.requirements }];
+  }));
+  const oldDeps = byKey(from);
+  const newDeps = byKey(to);
+  const changes: DependencyChange[] = [];
+
+  for (const [key, dep] of newDeps) {
+    const old = oldDeps.get(key);
+    if (!old) {
+      changes.push({ name: dep.name, type: dep.type, status: 'added', to: dep.requirements });
+    } else if (old.requirements !== dep.requirements) {
+      changes.push({ name: dep.name, type: dep.type, status: 'changed', from: old.requirements, to: dep.requirements });
+    }
+  }
+  for (const [key, dep] of oldDeps) {
+    if (!newDeps.has(key)) {
+      changes.push({ name: dep.name, type: dep.type, status: 'removed', from: dep.requirements });
+    }
+  }
+
+  return changes.sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
+}
+
+const COMPARED_FIELDS: (keyof GemMetadata)[] = [
+  'platform', 'summary', 'description', 'authors', 'email', 'homepage', 'licenses',
+  'required_ruby_version', 'required_rubygems_version', 'executables'
+];
+
+function compareMetadata(from: GemMetadata, to: GemMetadata): MetadataChange[] {
+  const changes: MetadataChange[] = [];
+  const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+  for (const field of COMPARED_FIELDS) {
+    if (!same(from[field], to[field])) {
+      changes.push({ field, from: from[field] ?? null, to: to[field] ?? null });
+    }
+  }
+
+  // Gemspec metadata entries such as source_code_uri, compared one by one
+  const keys = new Set([...Object.keys(from.metadata || {}), ...Object.keys(to.metadata || {})]);
+  for (const key of [...keys].sort()) {
+    if (!same(from.metadata?.[key], to.metadata?.[key])) {
+      changes.push({ field: `metadata.${key}`, from: from.metadata?.[key] ?? null, to: to.metadata?.[key] ?? null });
+    }
+  }
+
+  return changes;
+}
+
+export async function compareGems(env: CloudflareBindings, from: GemMetadata, to: GemMetadata): Promise<GemComparison> {
+  const [oldFiles, newFiles] = await Promise.all([readGemFiles(env, from), readGemFiles(env, to)]);
+  const paths = [...new Set([...oldFiles.keys(), ...newFiles.keys()])].sort((a, b) => a.localeCompare(b));
+
+  const files: FileChange[] = [];
+  let unchanged = 0;
+  let patchSize = 0;
+
+  for (const path of paths) {
+    const oldData = oldFiles.get(path);
+    const newData = newFiles.get(path);
+
+    if (oldData && newData && oldData.equals(newData)) {
+      unchanged++;
+      continue;
+    }
+
+    const change = compareFile(path, oldData, newData);
+    if (change.patch) {
+      patchSize += change.patch.length;
+      if (patchSize > DIFF_MAX_TOTAL_SIZE) {
+        delete change.patch;
+      }
+    }
+    files.push(change);
+  }
+
+  return {
+    name: to.name,
+    from: gemVersionSlug(from.version, from.platform),
+    to: gemVersionSlug(to.version, to.platform),
+    files,
+    unchanged_files: unchanged,
+    dependencies: compareDependencies(from, to),
+    metadata: compareMetadata(from, to)
+  };
+}
@@ -0,0 +1,118 @@
+import { CloudflareBindings, GemMetadata } from './types';
+import { gemContentsKey, gemObjectKey, readGemDataFiles } from './utils';
+
+// What's inside each gem package: the files of its data.tar.gz and its README. The list is kept
+// in R2 at contents/<name>-<version>[-<platform>].json, written when the gem is pushed and built
+// from the .gem file the first time an older gem is viewed. Single files are read from the .gem.
+
+const README_NAMES = ['README.md', 'README.markdown', 'README.rdoc', 'README.txt', 'README'];
+const README_MAX_SIZE = 256 * 1024;
+
+export const FILE_VIEW_MAX_SIZE = 512 * 1024;
+
+export interface GemFileEntry {
+  path: string;
+  size: number;
+  binary: boolean;
+}
+
+export interface GemReadme {
+  path: string;
+  format: 'markdown' | 'text';
+  content: string;
+}
+
+export interface GemContents {
+  files: GemFileEntry[];
+  readme?: GemReadme;
+}
+
+export interface GemFileView {
+  file: GemFileEntry;
+  content: string | null; // null for binary files and files over FILE_VIEW_MAX_SIZE
+}
+
+type GemIdentity = Pick<GemMetadata, 'name' | 'version' | 'platform'>;
+
+// The text of a file, or null when it is binary (has NUL bytes or isn't valid UTF-8)
+export function decodeText(data: Uint8Array): string | null {
+  if (data.includes(0)) {
+    return null;
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(data);
+  } catch {
+    return null;
+  }
+}
+
+// The top-level README, preferring Markdown. RDoc and plain text READMEs are shown as text.
+function findReadme(files: { path: string; data: Buffer }[]): GemReadme | undefined {
+  for (const name of README_NAMES) {
+    const file = files.find(candidate => candidate.path.toLowerCase() === name.toLowerCase());
+    if (!file || file.data.length > README_MAX_SIZE) continue;
+
+    const content = decodeText(file.data);
+    if (content !== null) {
+      return { path: file.path, format: /\.(md|markdown)$/i.test(file.path) ? 'markdown' : 'text', content };
+    }
+  }
+
+  return undefined;
+}
+
+// Index the contents of a gem file and store the list in R2
+export async function saveGemContents(env: CloudflareBindings, gem: GemIdentity, gemFile: ArrayBuffer): Promise<GemContents> {
+  const files = await readGemDataFiles(gemFile);
+
+  const contents: GemContents = {
+    files: files
+      .map(file => ({ path: file.path, size: file.data.length, binary: decodeText(file.data) === null }))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+    readme: findReadme(files)
+  };
+
+  const key = gemContentsKey(gem.name, gem.version, gem.platform);
+  console.log('Storing gem contents in R2 with key:', key);
+  await env.GEMFLARE_BUCKET.put(key, JSON.stringify(contents), {
+    httpMetadata: { contentType: 'application/json' }
+  });
+
+  return contents;
+}
+
+// The contents of a gem version, or null when its .gem file isn't in R2
+export async function getGemContents(env: CloudflareBindings, gem: GemIdentity): Promise<GemContents | null> {
+  const object = await env.GEMFLARE_BUCKET.get(gemContentsKey(gem.name, gem.version, gem.platform));
+  if (object) {
+    return object.json<GemContents>();
+  }
+
+  const gemObject = await env.GEMFLARE_BUCKET.get(gemObjectKey(gem.name, gem.version, gem.platform));
+  if (!gemObject) {
+    return null;
+  }
+
+  console.log(`Indexing contents of ${gem.name} (${gem.version})`);
+  return saveGemContents(env, gem, await gemObject.arrayBuffer());
+}
+
+// One file of a gem version, or null when the gem or the file doesn't exist
+export async function getGemFile(env: CloudflareBindings, gem: GemIdentity, path: string): Promise<GemFileView | null> {
+  const gemObject = await env.GEMFLARE_BUCKET.get(gemObjectKey(gem.name, gem.version, gem.platform));
+  if (!gemObject) {
+    return null;
+  }
+
+  const file = (await readGemDataFiles(await gemObject.arrayBuffer())).find(candidate => candidate.path === path);
+  if (!file) {
+    return null;
+  }
+
+  const text = decodeText(file.data);
+  return {
+    file: { path: file.path, size: file.data.length, binary: text === null },
+    content: file.data.length > FILE_VIEW_MAX_SIZE ? null : text
+  };
+}
@@ -0,0 +1,214 @@
+import { CloudflareBindings } from './types';
+import { gemVersionSlug } from './gemspec';
+
+// Download statistics for one gem. Version keys are "<version>" or "<version>-<platform>".
+export interface DownloadStats {
+  total: number;
+  versions: Record<string, number>;
+  daily: Record<string, number>; // YYYY-MM-DD (UTC) => downloads
+}
+
+const KV_PREFIX = 'downloads:';
+const KV_SUMMARY_PREFIX = 'download-stats:';
+const KV_FOLDED_THROUGH_KEY = 'download-stats-folded-through';
+const KV_COUNTER_TTL = 4 * 24 * 60 * 60; // seconds; an hour's counters are folded into the summaries well before
+const KV_FOLD_DELAY_MINUTES = 10; // an hour is folded this long after it ends, once its counters list consistently
+const KV_FOLD_MAX_HOURS = 6; // hours folded per run, so a run that catches up stays within the subrequest limit
+const DAILY_HISTORY_DAYS = 90; // daily counts kept in the KV summary, as served by the downloads API
+
+// Counts of the hours already folded into a gem's KV summary, up to and including `through`
+interface DownloadSummary extends DownloadStats {
+  through: string;
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 86400000).toISOString().slice(0, 10);
+}
+
+// UTC hour of a timestamp, e.g. "2024-05-01T13"
+function hourOf(time: number): string {
+  return new Date(time).toISOString().slice(0, 13);
+}
+
+function nextHour(hour: string): string {
+  return hourOf(Date.parse(`${hour}:00:00Z`) + 3600000);
+}
+
+function addDownloads(stats: DownloadStats, version: string, date: string, count: number): void {
+  stats.total += count;
+  stats.versions[version] = (stats.versions[version] || 0) + count;
+  stats.daily[date] = (stats.daily[date] || 0) + count;
+}
+
+// Version key used in DownloadStats, e.g. "2.2.0" or "1.16.0-x86_64-linux"
+export function downloadVersionKey(version: string, platform?: string): string {
+  return gemVersionSlug(version, platform);
+}
+
+// One Durable Object per gem counts its downloads. Requests to an object are handled one at a
+// time, so its counts are exact and up to date without waiting for the KV counters to be folded.
+export class DownloadCounter {
+  private storage: DurableObjectStorage;
+
+  constructor(state: DurableObjectState) {
+    this.storage = state.storage;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    if (request.method === 'POST') {
+      const version = new URL(request.url).searchParams.get('version') || '';
+      const keys = ['total', `version:${version}`, `day:${today()}`];
+      const counts = await this.storage.get<number>(keys);
+
+      await this.storage.put(Object.fromEntries(keys.map(key => [key, (counts.get(key) || 0) + 1])));
+      return new Response(null, { status: 204 });
+    }
+
+    const stats: DownloadStats = { total: 0, versions: {}, daily: {} };
+    for (const [key, count] of await this.storage.list<number>()) {
+      if (key === 'total') {
+        stats.total = count;
+      } else if (key.startsWith('version:')) {
+        stats.versions[key.slice('version:'.length)] = count;
+      } else if (key.startsWith('day:')) {
+        stats.daily[key.slice('day:'.length)] = count;
+      }
+    }
+
+    return Response.json(stats);
+  }
+}
+
+function counterStub(namespace: DurableObjectNamespace, name: string): DurableObjectStub {
+  return namespace.get(namespace.idFromName(name));
+}
+
+// Without the DOWNLOAD_COUNTER binding, every download is written to KV as its own key,
+// downloads:<hour>:<name>:<version>:<id>, so concurrent downloads can't overwrite each other's
+// counts. The Cron Trigger folds each finished hour into the download-stats:<name> summaries,
+// which are all that reading the stats needs. The counters expire a few days later.
+async function recordDownloadInKV(kv: KVNamespace, name: string, version: string): Promise<void> {
+  const key = `${KV_PREFIX}${hourOf(Date.now())}:${name}:${version}:${crypto.randomUUID()}`;
+  await kv.put(key, '', { expirationTtl: KV_COUNTER_TTL });
+}
+
+async function getDownloadSummary(kv: KVNamespace, name: string): Promise<DownloadSummary> {
+  const summary = await kv.get(`${KV_SUMMARY_PREFIX}${name}`, 'json') as DownloadSummary | null;
+  return summary || { through: '', total: 0, versions: {}, daily: {} };
+}
+
+// Add the downloads counted in one hour to the summaries of the gems downloaded in it
+async function foldDownloadHour(kv: KVNamespace, hour: string): Promise<void> {
+  const counts = new Map<string, DownloadStats>();
+  const prefix = `${KV_PREFIX}${hour}:`;
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({ prefix, cursor });
+
+    for (const key of page.keys) {
+      const [name, version] = key.name.slice(prefix.length).split(':');
+      if (!counts.has(name)) {
+        counts.set(name, { total: 0, versions: {}, daily: {} });
+      }
+      addDownloads(counts.get(name)!, version, hour.slice(0, 10), 1);
+    }
+
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  const oldest = daysAgo(DAILY_HISTORY_DAYS);
+
+  for (const [name, added] of counts) {
+    const summary = await getDownloadSummary(kv, name);
+
+    // A run that stopped before recording its progress may have folded this gem already
+    if (summary.through >= hour) {
+      continue;
+    }
+
+    for (const [version, count] of Object.entries(added.versions)) {
+      addDownloads(summary, version, hour.slice(0, 10), count);
+    }
+    summary.through = hour;
+    summary.daily = Object.fromEntries(Object.entries(summary.daily).filter(([date]) => date >= oldest));
+
+    await kv.put(`${KV_SUMMARY_PREFIX}${name}`, JSON.stringify(summary));
+  }
+
+  if (counts.size > 0) {
+    console.log(`Folded the downloads of ${hour}:00 UTC for ${counts.size} gems`);
+  }
+}
+
+// The hour of the oldest stored counter, where the first fold starts. Keys sort by hour.
+async function oldestCounterHour(kv: KVNamespace): Promise<string | null> {
+  const { keys } = await kv.list({ prefix: KV_PREFIX, limit: 1 });
+  return keys.length > 0 ? keys[0].name.slice(KV_PREFIX.length).split(':')[0] : null;
+}
+
+// Fold the KV download counters of the hours that ended since the last run into the per-gem
+// summaries. Runs from the Cron Trigger; returns the number of hours folded.
+export async function foldDownloadCounters(env: CloudflareBindings): Promise<number> {
+  if (env.DOWNLOAD_COUNTER) {
+    return 0;
+  }
+
+  const kv = env.GEMFLARE_KV;
+  const foldedThrough = await kv.get(KV_FOLDED_THROUGH_KEY);
+  const last = hourOf(Date.now() - (60 + KV_FOLD_DELAY_MINUTES) * 60000);
+  let hour = foldedThrough ? nextHour(foldedThrough) : await oldestCounterHour(kv);
+  let folded = 0;
+
+  while (hour && hour <= last && folded < KV_FOLD_MAX_HOURS) {
+    await foldDownloadHour(kv, hour);
+    await kv.put(KV_FOLDED_THROUGH_KEY, hour);
+    hour = nextHour(hour);
+    folded++;
+  }
+
+  return folded;
+}
+
+// Count one download of a gem file
+export async function recordDownload(env: CloudflareBindings, name: string, version: string, platform?: string): Promise<void> {
+  const versionKey = downloadVersionKey(version, platform);
+
+  try {
+    if (env.DOWNLOAD_COUNTER) {
+      const stub = counterStub(env.DOWNLOAD_COUNTER, name);
+      await stub.fetch(`https://downloads/?version=${encodeURIComponent(versionKey)}`, { method: 'POST' });
+    } else {
+      await recordDownloadInKV(env.GEMFLARE_KV, name, versionKey);
+    }
+  } catch (error) {
+    console.error(`Error recording download of ${name} (${versionKey}):`, error);
+  }
+}
+
+export async function getDownloadStats(env: CloudflareBindings, name: string): Promise<DownloadStats> {
+  if (env.DOWNLOAD_COUNTER) {
+    const response = await counterStub(env.DOWNLOAD_COUNTER, name).fetch('https://downloads/');
+    return response.json<DownloadStats>();
+  }
+
+  const { total, versions, daily } = await getDownloadSummary(env.GEMFLARE_KV, name);
+  return { total, versions, daily };
+}
+
+// Daily downloads for the last `days` days (oldest first), with days without downloads as 0
+export function dailySeries(stats: DownloadStats, days: number): { date: string; downloads: number }[] {
+  const series: { date: string; downloads: number }[] = [];
+  const end = new Date(`${today()}T00:00:00Z`);
+
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date(end.getTime() - i * 86400000).toISOString().slice(0, 10);
+    series.push({ date, downloads: stats.daily[date] || 0 });
+  }
+
+  return series;
+}
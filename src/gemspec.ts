@@ -0,0 +1,222 @@
+import { dump, RubyObject } from '@hyrious/marshal';
+import * as yaml from 'js-yaml';
+import * as zlib from 'zlib';
+import { isValidVersion } from './version';
+
+// Plain JS versions of the Ruby objects found in a gem's metadata.gz
+export interface GemRequirement {
+  requirements: [string, string][]; // [operator, version]
+}
+
+export interface GemspecDependency {
+  name: string;
+  requirement: GemRequirement;
+  type: 'runtime' | 'development';
+  prerelease?: boolean;
+}
+
+export interface Gemspec {
+  name: string;
+  version: string;
+  platform: string;
+  authors: string[];
+  email?: string | string[] | null;
+  summary?: string;
+  description?: string;
+  homepage?: string;
+  licenses: string[];
+  metadata: Record<string, string>;
+  date?: Date | string;
+  dependencies: GemspecDependency[];
+  required_ruby_version: GemRequirement;
+  required_rubygems_version: GemRequirement;
+  rubygems_version?: string;
+  specification_version?: number;
+  files: string[];
+  executables: string[];
+}
+
+const DEFAULT_REQUIREMENT: GemRequirement = { requirements: [['>=', '0']] };
+
+// js-yaml types for the Ruby tags RubyGems writes into metadata.gz
+const GEMSPEC_TYPES = [
+  new yaml.Type('!ruby/object:Gem::Specification', {
+    kind: 'mapping',
+    construct: (data: any) => data || {}
+  }),
+  new yaml.Type('!ruby/object:Gem::Version', {
+    kind: 'mapping',
+    construct: (data: any) => String(data?.version ?? '0')
+  }),
+  new yaml.Type('!ruby/object:Gem::Requirement', {
+    kind: 'mapping',
+    construct: (data: any) => ({
+      requirements: (data?.requirements || []).map(([op, version]: [string, unknown]) => [op, String(version)])
+    })
+  }),
+  new yaml.Type('!ruby/object:Gem::Version::Requirement', {
+    kind: 'mapping',
+    construct: (data: any) => ({
+      requirements: (data?.requirements || []).map(([op, version]: [string, unknown]) => [op, String(version)])
+    })
+  }),
+  new yaml.Type('!ruby/object:Gem::Dependency', {
+    kind: 'mapping',
+    construct: (data: any) => ({
+      name: data.name,
+      requirement: data.requirement || data.version_requirements || DEFAULT_REQUIREMENT,
+      type: String(data.type || ':runtime').replace(/^:/, ''),
+      prerelease: Boolean(data.prerelease)
+    })
+  }),
+  new yaml.Type('!ruby/object:Gem::Platform', {
+    kind: 'mapping',
+    construct: (data: any) => [data?.cpu, data?.os, data?.version].filter(Boolean).join('-')
+  })
+];
+
+const GEMSPEC_SCHEMA = yaml.DEFAULT_SCHEMA.extend(GEMSPEC_TYPES);
+
+// Load the YAML gemspec stored in a gem's metadata.gz
+export function loadGemspec(yamlText: string): Gemspec {
+  const spec = yaml.load(yamlText, { schema: GEMSPEC_SCHEMA }) as any;
+
+  if (!spec || typeof spec !== 'object') {
+    throw new Error('Failed to parse gem spec');
+  }
+
+  return {
+    ...spec,
+    name: String(spec.name),
+    version: String(spec.version),
+    platform: spec.platform || 'ruby',
+    authors: spec.authors || [],
+    licenses: spec.licenses || [],
+    metadata: spec.metadata || {},
+    dependencies: spec.dependencies || [],
+    required_ruby_version: spec.required_ruby_version || DEFAULT_REQUIREMENT,
+    required_rubygems_version: spec.required_rubygems_version || DEFAULT_REQUIREMENT,
+    files: spec.files || [],
+    executables: spec.executables || []
+  };
+}
+
+// Format a requirement the way RubyGems prints it, e.g. "~> 2.1, >= 2.1.1"
+export function requirementToString(requirement: GemRequirement): string {
+  return requirement.requirements.map(([op, version]) => `${op} ${version}`).join(', ');
+}
+
+// A version together with its platform, as used in KV keys and URLs, e.g. "2.2.0" or "1.16.0-x86_64-linux"
+export function gemVersionSlug(version: string, platform?: string): string {
+  return platform && platform !== 'ruby' ? `${version}-${platform}` : version;
+}
+
+// The versions and platforms a slug made by gemVersionSlug may stand for. Versions may contain
+// dashes too (e.g. "1.0-java" could be version "1.0-java" or version "1.0" for Java), so callers
+// look the candidates up in order.
+export function parseGemVersionSlug(slug: string): { version: string; platform: string }[] {
+  const candidates = isValidVersion(slug) ? [{ version: slug, platform: 'ruby' }] : [];
+
+  for (let dash = slug.indexOf('-'); dash !== -1; dash = slug.indexOf('-', dash + 1)) {
+    const version = slug.slice(0, dash);
+    if (isValidVersion(version) && dash + 1 < slug.length) {
+      candidates.push({ version, platform: slug.slice(dash + 1) });
+    }
+  }
+
+  return candidates;
+}
+
+// File name used by the legacy full index, e.g. "rack-2.2.0" or "nokogiri-1.16.0-x86_64-linux"
+export function gemFileBaseName(name: string, version: string, platform?: string): string {
+  return `${name}-${gemVersionSlug(version, platform)}`;
+}
+
+// Every way a file name made by gemFileBaseName can be split into its parts, shortest name
+// first. A name can itself end in something that looks like a version (e.g. "acme-3-client"),
+// so only the stored gems can tell which split is the right one.
+export function parseGemFileBaseNames(baseName: string): { name: string; version: string; platform: string }[] {
+  const candidates: { name: string; version: string; platform: string }[] = [];
+
+  for (let dash = baseName.indexOf('-'); dash !== -1; dash = baseName.indexOf('-', dash + 1)) {
+    const name = baseName.slice(0, dash);
+    for (const { version, platform } of parseGemVersionSlug(baseName.slice(dash + 1))) {
+      candidates.push({ name, version, platform });
+    }
+  }
+
+  return candidates;
+}
+
+// Gem::Version marshals itself as [version] (marshal_dump)
+export function marshalVersion(version: string): RubyObject {
+  const object = new RubyObject(Symbol.for('Gem::Version'));
+  object.userMarshal = [version];
+  return object;
+}
+
+function marshalRequirement(requirement: GemRequirement): RubyObject {
+  const object = new RubyObject(Symbol.for('Gem::Requirement'));
+  object.userMarshal = [requirement.requirements.map(([op, version]) => [op, marshalVersion(version)])];
+  return object;
+}
+
+function marshalDependency(dependency: GemspecDependency): RubyObject {
+  const object = new RubyObject(Symbol.for('Gem::Dependency')) as RubyObject & Record<symbol, unknown>;
+  object[Symbol.for('@name')] = dependency.name;
+  object[Symbol.for('@requirement')] = marshalRequirement(dependency.requirement);
+  object[Symbol.for('@type')] = Symbol.for(dependency.type);
+  object[Symbol.for('@prerelease')] = Boolean(dependency.prerelease);
+  return object;
+}
+
+// Gem::Platform splits "x86_64-linux" into cpu, os and an optional os version
+function marshalPlatform(platform: string): string | RubyObject {
+  if (platform === 'ruby') {
+    return platform;
+  }
+
+  const parts = platform.split('-');
+  const [cpu, os, version] = parts.length === 1 ? [null, parts[0], null] : [parts[0], parts[1], parts[2] || null];
+  const osMatch = os.match(/^([a-z_]+?)(\d+)$/);
+
+  const object = new RubyObject(Symbol.for('Gem::Platform')) as RubyObject & Record<symbol, unknown>;
+  object[Symbol.for('@cpu')] = cpu;
+  object[Symbol.for('@os')] = osMatch ? osMatch[1] : os;
+  object[Symbol.for('@version')] = osMatch ? osMatch[2] : version;
+  return object;
+}
+
+// Marshal a gemspec the way Gem::Specification#_dump does and deflate it,
+// as served from /quick/Marshal.4.8/<name>-<version>.gemspec.rz
+export function marshalGemspec(spec: Gemspec): Uint8Array {
+  const date = spec.date instanceof Date ? spec.date : new Date(spec.date || Date.now());
+
+  const fields = [
+    spec.rubygems_version || '3.5.3',
+    spec.specification_version || 4,
+    spec.name,
+    marshalVersion(spec.version),
+    // Gem::Specification#date= accepts "YYYY-MM-DD" strings
+    (isNaN(date.getTime()) ? new Date() : date).toISOString().slice(0, 10),
+    spec.summary || '',
+    marshalRequirement(spec.required_ruby_version),
+    marshalRequirement(spec.required_rubygems_version),
+    spec.platform,
+    spec.dependencies.map(marshalDependency),
+    '', // rubyforge_project
+    spec.email ?? null,
+    spec.authors,
+    spec.description ?? null,
+    spec.homepage ?? null,
+    true, // has_rdoc
+    marshalPlatform(spec.platform),
+    spec.licenses,
+    spec.metadata
+  ];
+
+  const specification = new RubyObject(Symbol.for('Gem::Specification'));
+  specification.userDefined = dump(fields);
+
+  return zlib.deflateSync(dump(specification));
+}
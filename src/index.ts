@@ -1,35 +1,86 @@
 import { Hono } from 'hono'
-import { basicAuth, jwtAuth } from './middleware'
-import { CloudflareBindings, GemMetadata } from './types'
+import { apiKeyAuth, basicAuth, isPrivateReads, jwtAuth, readAuth, requireAdmin } from './middleware'
+import { ApiKeyScope, AuthUser, CloudflareBindings, GemMetadata } from './types'
+import {
+  API_KEY_SCOPES,
+  createApiKey,
+  createInvite,
+  createUser,
+  deleteInvite,
+  findApiKey,
+  findUser,
+  getInvite,
+  hashUserPassword,
+  getUser,
+  listApiKeys,
+  listUsers,
+  revokeApiKey,
+  saveUser,
+  updateApiKeyScopes,
+  validatePassword,
+  validateUsername,
+  verifyCredentials
+} from './auth'
 import {
   getAllGems,
   getGem,
   getGemVersion,
-  saveGem,
-  incrementDownloads,
-  verifyPassword,
-  hashPassword,
-  extractGemMetadata,
+  findGemVersion,
+  findGemByFileName,
+  getGemOwners,
+  setGemOwners,
+  canManageGem,
+  yankGem,
+  unyankGem,
+  deleteGem,
+  InvalidGemError,
   generateSpecsGz,
   generateEmptySpecsGz,
   generateValidSpecsGz,
   generateInfoContent,
   generateNamesContent,
   generateVersionsContent,
+  compactIndexResponse,
+  compactIndexFileResponse,
+  MIRRORED_VERSIONS_PATH,
+  rebuildCompactIndexInR2,
+  listReservations,
+  saveReservation,
+  deleteReservation,
+  validateReservationPattern,
   updateSpecsIndexInR2,
   getSpecsIndexFromR2,
-  generateDependenciesResponse
+  buildDependencyEntries,
+  marshalDependencies,
+  getGemVersions,
+  saveQuickSpec
 } from './utils'
 import {
   layout,
   loginPage,
   gemsListPage,
   gemDetailPage,
+  gemFilesPage,
+  gemFilePage,
+  gemComparePage,
   uploadPage,
+  apiKeysPage,
+  usersPage,
+  reservationsPage,
+  invitePage,
   errorPage
 } from './templates'
 import { html } from 'hono/html'
-import { setCookie, getCookie } from 'hono/cookie'
+import * as yaml from 'js-yaml'
+import { createSession, destroySession, getSessionUser } from './session'
+import { ingestGem, migrateGemObjects, refreshCompactIndex, refreshSearchIndex, refreshSpecsIndex } from './ingest'
+import { SEARCH_PAGE_SIZE, rebuildSearchIndex, searchGems } from './search'
+import { DownloadCounter, DownloadStats, dailySeries, downloadVersionKey, foldDownloadCounters, getDownloadStats, recordDownload } from './downloads'
+import { gemFileBaseName, gemVersionSlug, parseGemFileBaseNames } from './gemspec'
+import { getGemContents, getGemFile } from './contents'
+import { GemComparison, compareGems, parseCompareRange } from './compare'
+import { compareVersions, isPrerelease, latestMatchingVersion, latestVersion } from './version'
+import { fetchUpstreamGem, fetchUpstreamInfo, isLocalName, parseInfoContent, refreshUpstreamVersions, upstreamUrl } from './upstream'
 
 const app = new Hono<{ Bindings: CloudflareBindings }>()
 
@@ -37,28 +88,197 @@ const app = new Hono<{ Bindings: CloudflareBindings }>()
 const api = new Hono<{ Bindings: CloudflareBindings }>()
 
 // List all gems
-api.get('/api/v1/gems', async (c) => {
+api.get('/api/v1/gems', readAuth, async (c) => {
   const gems = await getAllGems(c.env.GEMFLARE_KV)
   return c.json(gems)
 })
 
 // Get specific gem info
-api.get('/api/v1/gems/:name', async (c) => {
+api.get('/api/v1/gems/:name', readAuth, async (c) => {
   const name = c.req.param('name')
-  const gem = await getGem(c.env.GEMFLARE_KV, name)
+  const gem = await getGem(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name)
 
   if (!gem) {
     return c.json({ error: 'Gem not found' }, 404)
   }
 
-  return c.json(gem)
+  const stats = await getDownloadStats(c.env, name)
+
+  return c.json({
+    ...gem,
+    downloads: stats.total,
+    version_downloads: stats.versions[downloadVersionKey(gem.version, gem.platform)] || 0,
+    downloads_by_version: stats.versions
+  })
+})
+
+// Daily download counts of a gem for the last 90 days
+api.get('/api/v1/downloads/:file{.+\\.json}', readAuth, async (c) => {
+  const name = c.req.param('file').slice(0, -'.json'.length)
+
+  if (!await getGem(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name)) {
+    return c.json({ error: 'Gem not found' }, 404)
+  }
+
+  const stats = await getDownloadStats(c.env, name)
+
+  return c.json({
+    name,
+    total_downloads: stats.total,
+    version_downloads: stats.versions,
+    daily: dailySeries(stats, 90)
+  })
+})
+
+// Versions of a gem, newest first, in the format of the RubyGems versions API
+function versionsJson(versions: GemMetadata[], stats: DownloadStats) {
+  return [...versions]
+    .sort((a, b) => compareVersions(b.version, a.version) || (a.platform || 'ruby').localeCompare(b.platform || 'ruby'))
+    .map(gem => ({
+      authors: (gem.authors || []).join(', '),
+      built_at: gem.created_at,
+      created_at: gem.created_at,
+      description: gem.description || gem.info,
+      downloads_count: stats.versions[downloadVersionKey(gem.version, gem.platform)] || 0,
+      metadata: gem.metadata || {},
+      number: gem.version,
+      summary: gem.summary,
+      platform: gem.platform || 'ruby',
+      rubygems_version: gem.required_rubygems_version || '>= 0',
+      ruby_version: gem.required_ruby_version || null,
+      prerelease: isPrerelease(gem.version),
+      licenses: gem.licenses || [],
+      requirements: [],
+      sha: gem.sha256,
+      yanked: !!gem.yanked
+    }))
+}
+
+// Latest installable version of a gem, preferring releases over prereleases
+api.get('/api/v1/versions/:name/latest.json', readAuth, async (c) => {
+  const versions = await getGemVersions(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, c.req.param('name'))
+
+  if (versions.length === 0) {
+    return c.json({ error: 'Gem not found' }, 404)
+  }
+
+  const latest = latestVersion(versions.filter(gem => !gem.yanked).map(gem => gem.version))
+
+  return c.json({ version: latest || 'unknown' })
+})
+
+// Every version of a gem, including yanked ones (RubyGems versions API)
+api.get('/api/v1/versions/:file{[^/]+\\.json}', readAuth, async (c) => {
+  const name = c.req.param('file').slice(0, -'.json'.length)
+  const versions = await getGemVersions(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name)
+
+  if (versions.length === 0) {
+    return c.json({ error: 'Gem not found' }, 404)
+  }
+
+  return c.json(versionsJson(versions, await getDownloadStats(c.env, name)))
+})
+
+// Search gems by name, summary and description (RubyGems search API), 30 results per page
+api.get('/api/v1/search.json', readAuth, async (c) => {
+  const query = c.req.query('query') || ''
+  const page = Math.max(1, parseInt(c.req.query('page') || '1', 10) || 1)
+  const origin = new URL(c.req.url).origin
+
+  const results = await searchGems(c.env, query, page)
+  const gems = await Promise.all(results.entries.map(async entry => ({
+    name: entry.name,
+    downloads: (await getDownloadStats(c.env, entry.name)).total,
+    version: entry.version,
+    platform: entry.platform || 'ruby',
+    authors: (entry.authors || []).join(', '),
+    info: entry.description || entry.summary || '',
+    licenses: entry.licenses || [],
+    project_uri: `${origin}/gems/${entry.name}`,
+    gem_uri: `${origin}/gems/${gemFileBaseName(entry.name, entry.version, entry.platform)}.gem`,
+    homepage_uri: entry.homepage || null
+  })))
+
+  return c.json(gems)
+})
+
+// List the owners of a gem (gem owner NAME)
+api.get('/api/v1/gems/:name/:owners{owners(?:\\.json|\\.yaml)?}', readAuth, async (c) => {
+  const name = c.req.param('name')
+
+  if (!await getGem(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name)) {
+    return c.text('This rubygem could not be found.', 404)
+  }
+
+  const owners = (await getGemOwners(c.env.GEMFLARE_KV, name)).map(handle => ({ handle }))
+
+  if (c.req.param('owners').endsWith('.yaml')) {
+    return c.text(yaml.dump(owners), 200, { 'Content-Type': 'text/yaml' })
+  }
+
+  return c.json(owners)
+})
+
+// Add an owner to a gem (gem owner NAME --add USER)
+api.post('/api/v1/gems/:name/owners', apiKeyAuth('push'), async (c) => {
+  const name = c.req.param('name')
+  const body = await c.req.parseBody()
+  // The RubyGems client sends the new owner as `email`; GemFlare identifies users by username
+  const username = ((body['email'] || body['handle']) as string || '').trim()
+
+  if (!await getGem(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name)) {
+    return c.text('This rubygem could not be found.', 404)
+  }
+
+  if (!await canManageGem(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name, c.get('user') as AuthUser)) {
+    return c.text('You do not have permission to manage this gem.', 403)
+  }
+
+  if (!username || !await findUser(c.env, username)) {
+    return c.text('Owner could not be found.', 404)
+  }
+
+  const owners = await getGemOwners(c.env.GEMFLARE_KV, name)
+  if (owners.includes(username)) {
+    return c.text(`${username} is already an owner of this gem.`, 422)
+  }
+
+  await setGemOwners(c.env.GEMFLARE_KV, name, [...owners, username])
+  return c.text(`${username} was added as an owner of ${name}.`)
+})
+
+// Remove an owner from a gem (gem owner NAME --remove USER)
+api.delete('/api/v1/gems/:name/owners', apiKeyAuth('push'), async (c) => {
+  const name = c.req.param('name')
+  const body = await c.req.parseBody()
+  const username = ((body['email'] || body['handle']) as string || '').trim()
+
+  if (!await getGem(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name)) {
+    return c.text('This rubygem could not be found.', 404)
+  }
+
+  if (!await canManageGem(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name, c.get('user') as AuthUser)) {
+    return c.text('You do not have permission to manage this gem.', 403)
+  }
+
+  const owners = await getGemOwners(c.env.GEMFLARE_KV, name)
+  if (!owners.includes(username)) {
+    return c.text('Owner could not be found.', 404)
+  }
+
+  if (owners.length === 1) {
+    return c.text('Unable to remove the last owner of a gem.', 422)
+  }
+
+  await setGemOwners(c.env.GEMFLARE_KV, name, owners.filter(owner => owner !== username))
+  return c.text(`${username} was removed from the owners of ${name}.`)
 })
 
 // Get specific gem version
-api.get('/api/v1/gems/:name/:version', async (c) => {
+api.get('/api/v1/gems/:name/:version', readAuth, async (c) => {
   const name = c.req.param('name')
   const version = c.req.param('version')
-  const gem = await getGemVersion(c.env.GEMFLARE_KV, name, version)
+  const gem = await findGemVersion(c.env.GEMFLARE_KV, name, version)
 
   if (!gem) {
     return c.json({ error: 'Gem version not found' }, 404)
@@ -67,100 +287,192 @@ api.get('/api/v1/gems/:name/:version', async (c) => {
   return c.json(gem)
 })
 
-// Upload a gem (requires authentication)
-api.post('/api/v1/gems', async (c) => {
+// Compare two versions of a gem given as "from...to"; problems with the request come back as an error with its status
+async function compareVersionRange(env: CloudflareBindings, name: string, range: string): Promise<{ comparison: GemComparison } | { error: string; status: 400 | 404 }> {
+  const versions = parseCompareRange(range)
+  if (!versions) {
+    return { error: 'Compare two versions with a range like 1.0.0...1.1.0', status: 400 }
+  }
+
+  const [from, to] = await Promise.all([
+    findGemVersion(env.GEMFLARE_KV, name, versions.from),
+    findGemVersion(env.GEMFLARE_KV, name, versions.to)
+  ])
+  if (!from || !to) {
+    return { error: `Gem ${name} version ${from ? versions.to : versions.from} not found`, status: 404 }
+  }
+
+  return { comparison: await compareGems(env, from, to) }
+}
+
+// Files, dependency and gemspec changes between two versions of a gem
+api.get('/api/v1/gems/:name/compare/:range', readAuth, async (c) => {
   try {
-    // Check authentication
-    const authHeader = c.req.header('Authorization')
-    if (!authHeader || !authHeader.startsWith('Basic ')) {
-      return new Response('Unauthorized', { status: 401 })
+    const result = await compareVersionRange(c.env, c.req.param('name'), c.req.param('range'))
+    if ('error' in result) {
+      return c.json({ error: result.error }, result.status)
     }
 
-    const base64Credentials = authHeader.split(' ')[1]
-    const credentials = atob(base64Credentials)
-    const [username, password] = credentials.split(':')
+    return c.json(result.comparison)
+  } catch (error) {
+    console.error('Error comparing gem versions:', error)
+    return c.json({ error: error instanceof Error ? error.message : 'Error comparing gem versions' }, 500)
+  }
+})
 
-    // Verify credentials
-    const adminUsername = c.env.ADMIN_USERNAME || 'admin'
-    const adminPasswordHash = c.env.ADMIN_PASSWORD_HASH || ''
+// Map the scope flags sent by `gem signin` to GemFlare API key scopes
+const SIGNIN_SCOPES: Record<string, ApiKeyScope> = {
+  index_rubygems: 'read',
+  push_rubygem: 'push',
+  yank_rubygem: 'yank'
+}
+
+function signinScopes(body: Record<string, unknown>): ApiKeyScope[] {
+  return Object.entries(SIGNIN_SCOPES)
+    .filter(([param]) => body[param] === 'true')
+    .map(([, scope]) => scope)
+}
+
+// Legacy `gem signin`: exchange Basic credentials for a key with every scope
+api.get('/api/v1/api_key', basicAuth, async (c) => {
+  const user = c.get('user') as AuthUser
+  const { key } = await createApiKey(c.env.GEMFLARE_KV, user.username, 'gem signin', API_KEY_SCOPES)
+  return c.text(key)
+})
 
-    if (username !== adminUsername || !await verifyPassword(password, adminPasswordHash)) {
-      return new Response('Unauthorized', { status: 401 })
-    }
+// `gem signin` on RubyGems 3.3+: create a named key with the selected scopes
+api.post('/api/v1/api_key', basicAuth, async (c) => {
+  const user = c.get('user') as AuthUser
+  const body = await c.req.parseBody()
+  const scopes = signinScopes(body)
 
-    // Get the gem file from the request
-    const formData = await c.req.formData()
-    const gemFile = formData.get('file') as File
+  if (scopes.length === 0) {
+    return c.text('Please enable at least one scope', 422)
+  }
 
-    if (!gemFile) {
-      return new Response('No gem file provided', { status: 400 })
-    }
+  const name = (body['name'] as string) || 'gem signin'
+  const expiresDate = body['expires_at'] ? new Date(body['expires_at'] as string) : undefined
+  if (expiresDate && isNaN(expiresDate.getTime())) {
+    return c.text('Expires at is not a valid date', 422)
+  }
 
-    // Extract metadata from the gem file
-    const gemBuffer = await gemFile.arrayBuffer()
-    const metadata = await extractGemMetadata(gemBuffer)
+  const expiresAt = expiresDate?.toISOString()
+  const { key } = await createApiKey(c.env.GEMFLARE_KV, user.username, name, scopes, expiresAt)
+  return c.text(key)
+})
 
-    if (!metadata) {
-      return new Response('Invalid gem file', { status: 400 })
-    }
+// Add scopes to an existing key when the client hits a scope it lacks
+api.put('/api/v1/api_key', basicAuth, async (c) => {
+  const user = c.get('user') as AuthUser
+  const body = await c.req.parseBody()
+  const apiKey = await findApiKey(c.env.GEMFLARE_KV, (body['api_key'] as string) || '')
 
-    // Save the gem to R2
-    const objectKey = `gems/${metadata.name}-${metadata.version}.gem`
-    console.log('Storing gem file in R2 with key:', objectKey);
-    try {
-      await c.env.GEMFLARE_BUCKET.put(objectKey, gemBuffer);
-      console.log('Gem file stored in R2 successfully');
-    } catch (error) {
-      console.error('Failed to store gem file:', error);
-      return new Response(JSON.stringify({
-        success: false,
-        message: 'Failed to store gem file: ' + (error instanceof Error ? error.message : String(error))
-      }), {
-        status: 500,
-        headers: {
-          'Content-Type': 'application/json'
-        }
-      });
+  if (!apiKey || apiKey.username !== user.username) {
+    return c.text('API key not found', 404)
+  }
+
+  await updateApiKeyScopes(c.env.GEMFLARE_KV, apiKey, [...apiKey.scopes, ...signinScopes(body)])
+  return c.text('Scopes for the API key have been updated')
+})
+
+// Push a gem (gem push). The client sends the .gem as a raw application/octet-stream body;
+// multipart uploads with a "file" field are accepted too. GemFlare has no multi-factor
+// authentication, so a push with the OTP header sent by `gem push --otp` is refused rather
+// than published as if the code had been checked.
+api.post('/api/v1/gems', apiKeyAuth('push'), async (c) => {
+  if (c.req.header('OTP') || c.req.header('X-Gem-OTP')) {
+    return c.text('GemFlare does not support multi-factor authentication, so OTP codes cannot be verified. Push again without --otp.', 422)
+  }
+
+  try {
+    let gemBuffer: ArrayBuffer
+
+    if ((c.req.header('Content-Type') || '').startsWith('multipart/form-data')) {
+      const formData = await c.req.formData()
+      const gemFile = formData.get('file') as File | null
+      gemBuffer = gemFile ? await gemFile.arrayBuffer() : new ArrayBuffer(0)
+    } else {
+      gemBuffer = await c.req.arrayBuffer()
     }
 
-    // Save metadata to KV
-    await saveGem(c.env.GEMFLARE_KV, metadata)
-    
-    // Update specs index files in R2
-    try {
-      console.log('Updating specs index files after gem upload');
-      const allGems = await getAllGems(c.env.GEMFLARE_KV);
-      await updateSpecsIndexInR2(c.env.GEMFLARE_BUCKET, allGems);
-      console.log('Specs index files updated successfully');
-    } catch (updateError) {
-      console.error('Error updating specs index:', updateError);
-      // Continue with the response even if updating specs fails
+    if (gemBuffer.byteLength === 0) {
+      return c.text('No gem file provided', 400)
     }
 
-    return new Response(JSON.stringify({
-      success: true,
-      message: `Gem ${metadata.name} (${metadata.version}) uploaded successfully`
-    }), {
-      headers: {
-        'Content-Type': 'application/json'
-      }
-    })
+    const metadata = await ingestGem(c.env, gemBuffer, c.get('user') as AuthUser, 'api')
+    const title = metadata.platform && metadata.platform !== 'ruby' ? `${metadata.version}-${metadata.platform}` : metadata.version
+
+    return c.text(`Successfully registered gem: ${metadata.name} (${title})`)
   } catch (error) {
+    if (error instanceof InvalidGemError) {
+      return c.text(error.message, error.status)
+    }
     console.error('Error uploading gem:', error)
-    return new Response(JSON.stringify({
-      success: false,
-      message: 'Error uploading gem'
-    }), {
-      status: 500,
-      headers: {
-        'Content-Type': 'application/json'
-      }
-    })
+    return c.text('Error uploading gem', 500)
   }
 })
 
+// Yank a gem version (gem yank NAME -v VERSION [--platform PLATFORM])
+api.delete('/api/v1/gems/yank', apiKeyAuth('yank'), async (c) => {
+  const body = await c.req.parseBody()
+  const name = (body['gem_name'] || c.req.query('gem_name')) as string | undefined
+  const version = (body['version'] || c.req.query('version')) as string | undefined
+  const platform = (body['platform'] || c.req.query('platform')) as string | undefined
+
+  if (!name || !version) {
+    return new Response('Please specify a gem name and version', { status: 400 })
+  }
+
+  if (!await canManageGem(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name, c.get('user') as AuthUser)) {
+    return new Response('You do not have permission to yank this gem.', { status: 403 })
+  }
+
+  // Like rubygems.org, a yank without --platform applies to the pure-Ruby build
+  const existing = await getGemVersion(c.env.GEMFLARE_KV, name, version, platform || 'ruby')
+  if (existing?.yanked) {
+    return new Response(`The version ${gemVersionSlug(version, platform)} has already been yanked.`, { status: 422 })
+  }
+
+  const gem = await yankGem(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name, version, platform || 'ruby')
+  if (!gem) {
+    return new Response(`The version ${version}${platform ? ` (${platform})` : ''} does not exist.`, { status: 404 })
+  }
+
+  await refreshSpecsIndex(c.env, name)
+  await refreshCompactIndex(c.env, { name, version, platform: gem.platform, removed: true })
+  await refreshSearchIndex(c.env, name)
+
+  return new Response(`Successfully deleted gem: ${name} (${gemVersionSlug(version, gem.platform)})`)
+})
+
+// A .gem file from the upstream mirror, unless the gem name is hosted here. The file name alone
+// can't tell "acme-3-client-1.0.0" from version 3 of "acme", so every name it could belong to
+// must be unknown locally.
+async function fetchUpstreamGemFile(env: CloudflareBindings, filename: string) {
+  const names = new Set(parseGemFileBaseNames(filename.slice(0, -'.gem'.length)).map(gem => gem.name))
+  if (!upstreamUrl(env) || names.size === 0) {
+    return null
+  }
+
+  for (const name of names) {
+    if (await isLocalName(env, name)) {
+      return null
+    }
+  }
+
+  return fetchUpstreamGem(env, filename)
+}
+
+// Count a download of a local .gem file against the gem version it belongs to
+async function recordGemFileDownload(env: CloudflareBindings, filename: string) {
+  const gem = await findGemByFileName(env.GEMFLARE_KV, filename.slice(0, -'.gem'.length))
+  if (gem) {
+    await recordDownload(env, gem.name, gem.version, gem.platform)
+  }
+}
+
 // Download a gem file
-api.get('/gems/:file', async (c) => {
+api.get('/gems/:file', readAuth, async (c) => {
   const filename = c.req.param('file')
 
   if (!filename.endsWith('.gem')) {
@@ -172,9 +484,21 @@ api.get('/gems/:file', async (c) => {
     const object = await c.env.GEMFLARE_BUCKET.get(`gems/${filename}`)
 
     if (!object) {
-      return c.notFound()
+      const upstreamGem = await fetchUpstreamGemFile(c.env, filename)
+      if (!upstreamGem) {
+        return c.notFound()
+      }
+
+      return new Response(upstreamGem, {
+        headers: {
+          'Content-Type': 'application/octet-stream',
+          'Content-Disposition': `attachment; filename="${filename}"`
+        }
+      })
     }
 
+    c.executionCtx.waitUntil(recordGemFileDownload(c.env, filename))
+
     return new Response(object.body, {
       headers: {
         'Content-Type': 'application/octet-stream',
@@ -187,47 +511,95 @@ api.get('/gems/:file', async (c) => {
   }
 })
 
-// Add dependencies endpoint for Bundler compatibility
-app.get('/api/v1/dependencies', async (c) => {
+// Legacy full index gemspec (gem fetch, gem specification --remote)
+api.get('/quick/Marshal.4.8/:file', readAuth, async (c) => {
+  const filename = c.req.param('file')
+
+  if (!filename.endsWith('.gemspec.rz')) {
+    return c.notFound()
+  }
+
   try {
-    // Get the gems parameter from the query string
-    const gemsParam = c.req.query('gems');
-    
-    if (!gemsParam) {
-      return new Response('No gems specified', { status: 400 });
+    console.log(`Serving quick spec: ${filename}`)
+    const object = await c.env.GEMFLARE_BUCKET.get(`quick/Marshal.4.8/${filename}`)
+
+    if (object) {
+      return new Response(object.body, {
+        headers: { 'Content-Type': 'application/octet-stream' }
+      })
     }
-    
-    console.log(`Dependencies requested for: ${gemsParam}`);
-    
-    // Split the gems parameter by comma
-    const requestedGems = gemsParam.split(',').map(gem => gem.trim());
-    
-    if (requestedGems.length === 0) {
-      return new Response('No gems specified', { status: 400 });
+
+    // Gems pushed before quick specs were stored get theirs built from the .gem file
+    const baseName = filename.slice(0, -'.gemspec.rz'.length)
+    const gemObject = await c.env.GEMFLARE_BUCKET.get(`gems/${baseName}.gem`)
+
+    if (!gemObject) {
+      return c.notFound()
     }
-    
-    // Get all gems from KV
-    const allGems = await getAllGems(c.env.GEMFLARE_KV);
-    
-    // Generate dependencies response
-    const dependenciesData = await generateDependenciesResponse(allGems, requestedGems);
-    
-    // Return the dependencies data as Marshal format
-    return new Response(dependenciesData, {
+
+    const data = await saveQuickSpec(c.env.GEMFLARE_BUCKET, await gemObject.arrayBuffer())
+    return new Response(data, {
+      headers: { 'Content-Type': 'application/octet-stream' }
+    })
+  } catch (error) {
+    console.error(`Error serving quick spec: ${error}`)
+    return c.json({ error: 'Error serving quick spec' }, 500)
+  }
+})
+
+// Like rubygems.org, refuse requests for more gems than this in one call
+const DEPENDENCY_API_GEM_LIMIT = 200
+
+// Dependency API for Bundler: Marshal at /api/v1/dependencies, JSON at /api/v1/dependencies.json.
+// Bundler calls it without gems= to check that the API is available.
+app.get('/api/v1/:dependencies{dependencies(?:\\.json)?}', readAuth, async (c) => {
+  const json = c.req.param('dependencies').endsWith('.json')
+  const error = (message: string, status: 422 | 500) => json
+    ? c.json({ error: message, code: status }, status)
+    : c.text(message, status)
+
+  const requestedGems = [...new Set((c.req.query('gems') || '').split(',').map(gem => gem.trim()).filter(Boolean))]
+
+  if (requestedGems.length > DEPENDENCY_API_GEM_LIMIT) {
+    return error(`Too many gems! (use --full-index instead)`, 422)
+  }
+
+  try {
+    console.log(`Dependencies requested for: ${requestedGems.join(', ')}`)
+
+    const gems = await Promise.all(requestedGems.map(async name => {
+      const versions = await getGemVersions(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name)
+
+      // Gems GemFlare doesn't host or reserve come from upstream
+      if (versions.length === 0 && upstreamUrl(c.env) && !await isLocalName(c.env, name)) {
+        const info = await fetchUpstreamInfo(c.env, name)
+        return info === null ? [] : parseInfoContent(name, info)
+      }
+
+      return versions
+    }))
+
+    const entries = buildDependencyEntries(gems.flat())
+
+    if (json) {
+      return c.json(entries)
+    }
+
+    return new Response(marshalDependencies(entries), {
       headers: {
         'Content-Type': 'application/octet-stream'
       }
-    });
-  } catch (error) {
-    console.error('Error serving dependencies:', error);
-    return new Response('Error generating dependencies', { status: 500 });
+    })
+  } catch (err) {
+    console.error('Error serving dependencies:', err)
+    return error('Error generating dependencies', 500)
   }
-});
+})
 
 // Web UI Routes
 app.get('/', async (c) => {
-  const token = getCookie(c, 'auth_token')
-  const isLoggedIn = !!token
+  const user = await getSessionUser(c)
+  const isLoggedIn = !!user
   
   // Get the current worker URL
   const currentUrl = new URL(c.req.url).origin
@@ -255,7 +627,7 @@ app.get('/', async (c) => {
         <a href="/upload" class="bg-gray-600 text-white py-2 px-4 rounded hover:bg-gray-700">Upload Gem</a>
       </div>
     </div>
-  `, isLoggedIn))
+  `, isLoggedIn, user?.isAdmin))
 })
 
 // Login page
@@ -266,27 +638,16 @@ app.get('/login', (c) => {
 // Login form submission
 app.post('/login', async (c) => {
   const { username, password } = await c.req.parseBody()
+  const user = await verifyCredentials(c.env, username as string, password as string)
 
-  if (username === c.env.ADMIN_USERNAME) {
-    const isValid = await verifyPassword(password as string, c.env.ADMIN_PASSWORD_HASH)
-
-    if (isValid) {
-      // In a real implementation, you would use a proper JWT library
-      const token = `header.${btoa(JSON.stringify({
-        username,
-        isAdmin: true,
-        exp: Math.floor(Date.now() / 1000) + 3600 // 1 hour expiration
-      }))}.signature`
-
-      setCookie(c, 'auth_token', token, {
-        path: '/',
-        httpOnly: true,
-        sameSite: 'Strict',
-        maxAge: 3600
-      })
-
-      return c.redirect('/')
+  if (user) {
+    if (!c.env.SESSION_SECRET) {
+      console.error('SESSION_SECRET is not configured, refusing to create a session')
+      return c.html(loginPage('Login is unavailable: the server has no SESSION_SECRET configured.'))
     }
+
+    await createSession(c, user)
+    return c.redirect('/')
   }
 
   // Generic error message for any login failure
@@ -294,13 +655,8 @@ app.post('/login', async (c) => {
 })
 
 // Logout
-app.get('/logout', (c) => {
-  setCookie(c, 'auth_token', '', {
-    path: '/',
-    httpOnly: true,
-    sameSite: 'Strict',
-    maxAge: 0
-  })
+app.get('/logout', async (c) => {
+  await destroySession(c)
 
   return c.redirect('/login')
 })
@@ -308,33 +664,92 @@ app.get('/logout', (c) => {
 // List all gems (web UI)
 app.get('/gems', async (c) => {
   console.log('Accessing gems list page');
-  const token = getCookie(c, 'auth_token');
-  console.log('Auth token:', token ? 'present' : 'not present');
-  const isLoggedIn = !!token;
+  const user = await getSessionUser(c);
+  const isLoggedIn = !!user;
   console.log('User is logged in:', isLoggedIn);
 
+  if (isPrivateReads(c.env) && !isLoggedIn) {
+    return c.redirect('/login');
+  }
+
   // Get the current worker URL
   const currentUrl = new URL(c.req.url).origin
 
   try {
-    console.log('Fetching all gems from KV');
-    const gems = await getAllGems(c.env.GEMFLARE_KV);
-    console.log(`Found ${gems.length} gems`);
-
-    return c.html(gemsListPage(gems, isLoggedIn, currentUrl));
+    const query = c.req.query('query') || '';
+    const page = Math.max(1, parseInt(c.req.query('page') || '1', 10) || 1);
+
+    console.log(`Searching gems for "${query}" (page ${page})`);
+    const results = await searchGems(c.env, query, page);
+    console.log(`Found ${results.total} gems`);
+
+    const gems = await Promise.all(results.entries.map(async entry => ({
+      ...entry,
+      downloads: (await getDownloadStats(c.env, entry.name)).total
+    })));
+
+    return c.html(gemsListPage(gems, isLoggedIn, currentUrl, user?.isAdmin, {
+      query,
+      page,
+      pages: Math.max(1, Math.ceil(results.total / SEARCH_PAGE_SIZE)),
+      total: results.total
+    }));
   } catch (error) {
     console.error('Error fetching gems:', error);
     return c.html(errorPage(`Error fetching gems: ${error.message}`, isLoggedIn));
   }
 })
 
-// View gem details (web UI)
-app.get('/gems/:name', async (c) => {
-  const token = getCookie(c, 'auth_token')
-  const isLoggedIn = !!token
+// The README shown on a gem's page; a gem whose contents can't be read just has none
+async function gemReadme(env: CloudflareBindings, gem: GemMetadata) {
+  try {
+    return (await getGemContents(env, gem))?.readme
+  } catch (error) {
+    console.error(`Error reading contents of ${gem.name} (${gem.version}):`, error)
+    return undefined
+  }
+}
+
+// The newest hosted version matching each runtime dependency of a gem, or null when the
+// dependency is hosted here but no version satisfies its requirement. Prereleases only count
+// when the requirement names one, as in Gem::Dependency. Gems not hosted here are left out.
+async function resolveDependencies(env: CloudflareBindings, gem: GemMetadata): Promise<Record<string, string | null>> {
+  const resolved: Record<string, string | null> = {}
+
+  await Promise.all((gem.dependencies || []).filter(dep => dep.type !== 'development').map(async dep => {
+    const versions = await getGemVersions(env.GEMFLARE_KV, env.GEMFLARE_BUCKET, dep.name)
+    if (versions.length === 0) {
+      return
+    }
 
+    const requirement = dep.requirements || '>= 0'
+    try {
+      resolved[dep.name] = latestMatchingVersion(versions.filter(version => !version.yanked).map(version => version.version), requirement, isPrerelease(requirement))
+    } catch (error) {
+      console.error(`Cannot evaluate requirement ${requirement} of ${gem.name} on ${dep.name}:`, error)
+    }
+  }))
+
+  return resolved
+}
+
+// View gem details (web UI)
+app.get('/gems/:name', async (c, next) => {
   const name = c.req.param('name')
-  const gem = await getGem(c.env.GEMFLARE_KV, name)
+
+  // Gem downloads are served by the /gems/:file API route
+  if (name.endsWith('.gem')) {
+    return next()
+  }
+
+  const user = await getSessionUser(c)
+  const isLoggedIn = !!user
+
+  if (isPrivateReads(c.env) && !isLoggedIn) {
+    return c.redirect('/login')
+  }
+
+  const gem = await getGem(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name)
 
   // Get the current worker URL
   const currentUrl = new URL(c.req.url).origin
@@ -343,20 +758,30 @@ app.get('/gems/:name', async (c) => {
     return c.html(errorPage('Gem not found', isLoggedIn))
   }
 
-  return c.html(gemDetailPage(gem, isLoggedIn, currentUrl))
+  const owners = await getGemOwners(c.env.GEMFLARE_KV, gem.name)
+  const downloads = await getDownloadStats(c.env, gem.name)
+  const readme = await gemReadme(c.env, gem)
+  const versions = await getGemVersions(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, gem.name)
+  const dependencyVersions = await resolveDependencies(c.env, gem)
+
+  return c.html(gemDetailPage(gem, isLoggedIn, currentUrl, user?.isAdmin, owners, downloads, readme, versions, dependencyVersions))
 })
 
 // View specific gem version details (web UI)
 app.get('/gems/:name/:version', async (c) => {
-  const token = getCookie(c, 'auth_token')
-  const isLoggedIn = !!token
+  const user = await getSessionUser(c)
+  const isLoggedIn = !!user
+
+  if (isPrivateReads(c.env) && !isLoggedIn) {
+    return c.redirect('/login')
+  }
 
   const name = c.req.param('name')
   const version = c.req.param('version')
 
   console.log(`Accessing specific gem version: ${name} ${version}`)
 
-  const gem = await getGemVersion(c.env.GEMFLARE_KV, name, version)
+  const gem = await findGemVersion(c.env.GEMFLARE_KV, name, version)
 
   // Get the current worker URL
   const currentUrl = new URL(c.req.url).origin
@@ -365,20 +790,106 @@ app.get('/gems/:name/:version', async (c) => {
     return c.html(errorPage(`Gem ${name} version ${version} not found`, isLoggedIn))
   }
 
-  return c.html(gemDetailPage(gem, isLoggedIn, currentUrl))
+  const owners = await getGemOwners(c.env.GEMFLARE_KV, gem.name)
+  const downloads = await getDownloadStats(c.env, gem.name)
+  const readme = await gemReadme(c.env, gem)
+  const versions = await getGemVersions(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, gem.name)
+  const dependencyVersions = await resolveDependencies(c.env, gem)
+
+  return c.html(gemDetailPage(gem, isLoggedIn, currentUrl, user?.isAdmin, owners, downloads, readme, versions, dependencyVersions))
 })
 
-// Upload page (web UI)
-app.get('/upload', async (c) => {
-  const token = getCookie(c, 'auth_token')
-  if (!token) {
+// Files packaged in a gem version (web UI)
+app.get('/gems/:name/:version/files', async (c) => {
+  const user = await getSessionUser(c)
+  const isLoggedIn = !!user
+
+  if (isPrivateReads(c.env) && !isLoggedIn) {
+    return c.redirect('/login')
+  }
+
+  const name = c.req.param('name')
+  const version = c.req.param('version')
+  const gem = await findGemVersion(c.env.GEMFLARE_KV, name, version)
+
+  if (!gem) {
+    return c.html(errorPage(`Gem ${name} version ${version} not found`, isLoggedIn), 404)
+  }
+
+  try {
+    const contents = await getGemContents(c.env, gem)
+    if (!contents) {
+      return c.html(errorPage(`The gem file of ${name} ${version} is missing`, isLoggedIn), 404)
+    }
+
+    return c.html(gemFilesPage(gem, contents, isLoggedIn, user?.isAdmin))
+  } catch (error) {
+    console.error(`Error reading contents of ${name} (${version}):`, error)
+    return c.html(errorPage(`Error reading the contents of ${name} ${version}`, isLoggedIn), 500)
+  }
+})
+
+// View one file of a gem version (web UI)
+app.get('/gems/:name/:version/files/:path{.+}', async (c) => {
+  const user = await getSessionUser(c)
+  const isLoggedIn = !!user
+
+  if (isPrivateReads(c.env) && !isLoggedIn) {
+    return c.redirect('/login')
+  }
+
+  const name = c.req.param('name')
+  const version = c.req.param('version')
+  const path = c.req.param('path')
+  const gem = await findGemVersion(c.env.GEMFLARE_KV, name, version)
+
+  if (!gem) {
+    return c.html(errorPage(`Gem ${name} version ${version} not found`, isLoggedIn), 404)
+  }
+
+  try {
+    const view = await getGemFile(c.env, gem, path)
+    if (!view) {
+      return c.html(errorPage(`${path} not found in ${name} ${version}`, isLoggedIn), 404)
+    }
+
+    return c.html(gemFilePage(gem, view, isLoggedIn, user?.isAdmin))
+  } catch (error) {
+    console.error(`Error reading ${path} from ${name} (${version}):`, error)
+    return c.html(errorPage(`Error reading ${path} from ${name} ${version}`, isLoggedIn), 500)
+  }
+})
+
+// Compare two versions of a gem (web UI)
+app.get('/gems/:name/compare/:range', async (c) => {
+  const user = await getSessionUser(c)
+  const isLoggedIn = !!user
+
+  if (isPrivateReads(c.env) && !isLoggedIn) {
     return c.redirect('/login')
   }
 
+  try {
+    const result = await compareVersionRange(c.env, c.req.param('name'), c.req.param('range'))
+    if ('error' in result) {
+      return c.html(errorPage(result.error, isLoggedIn), result.status)
+    }
+
+    return c.html(gemComparePage(result.comparison, isLoggedIn, user?.isAdmin))
+  } catch (error) {
+    console.error('Error comparing gem versions:', error)
+    return c.html(errorPage(`Error comparing versions: ${error instanceof Error ? error.message : error}`, isLoggedIn), 500)
+  }
+})
+
+// Upload page (web UI)
+app.get('/upload', jwtAuth, async (c) => {
+  const user = c.get('user') as AuthUser
+
   // Get the current worker URL
   const currentUrl = new URL(c.req.url).origin
 
-  return c.html(uploadPage(currentUrl))
+  return c.html(uploadPage(currentUrl, user.isAdmin))
 })
 
 // Upload form submission (web UI)
@@ -400,41 +911,105 @@ app.post('/upload', jwtAuth, async (c) => {
     const buffer = await gemFile.arrayBuffer();
     console.log('Gem file read, size:', buffer.byteLength);
 
-    console.log('Extracting metadata from gem file');
-    const metadata = await extractGemMetadata(buffer, gemFile.name);
-    console.log('Extracted metadata:', metadata);
-
-    // Store gem file in R2
-    const key = `${metadata.name}-${metadata.version}.gem`;
-    console.log('Storing gem file in R2 with key:', key);
-    try {
-      await c.env.GEMFLARE_BUCKET.put(key, buffer);
-      console.log('Gem file stored in R2 successfully');
-    } catch (r2Error) {
-      console.error('Error storing gem file in R2:', r2Error);
-      throw new Error(`Failed to store gem file: ${r2Error.message}`);
-    }
-
-    // Store metadata in KV
-    console.log('Saving gem metadata to KV');
-    try {
-      await saveGem(c.env.GEMFLARE_KV, metadata);
-      console.log('Gem metadata saved to KV successfully');
-    } catch (kvError) {
-      console.error('Error saving gem metadata to KV:', kvError);
-      throw new Error(`Failed to save gem metadata: ${kvError.message}`);
-    }
+    await ingestGem(c.env, buffer, c.get('user') as AuthUser, 'web');
 
     console.log('Gem upload completed successfully, redirecting to /gems');
     return c.redirect('/gems');
   } catch (error) {
+    if (error instanceof InvalidGemError) {
+      return c.html(errorPage(error.message, true), error.status);
+    }
     console.error('Error in upload process:', error);
     return c.html(errorPage(error.message, true));
   }
 })
 
+// Accept an invite (web UI)
+app.get('/invite/:token', async (c) => {
+  const invite = await getInvite(c.env.GEMFLARE_KV, c.req.param('token'))
+
+  if (!invite) {
+    return c.html(errorPage('This invite link is invalid or has expired.'))
+  }
+
+  return c.html(invitePage(invite))
+})
+
+// Set a password for an invited user (web UI)
+app.post('/invite/:token', async (c) => {
+  const invite = await getInvite(c.env.GEMFLARE_KV, c.req.param('token'))
+
+  if (!invite) {
+    return c.html(errorPage('This invite link is invalid or has expired.'))
+  }
+
+  const { password, password_confirmation } = await c.req.parseBody()
+  const error = password !== password_confirmation
+    ? 'Passwords do not match.'
+    : validatePassword((password as string) || '')
+
+  if (error) {
+    return c.html(invitePage(invite, error))
+  }
+
+  if (await getUser(c.env.GEMFLARE_KV, invite.username)) {
+    return c.html(errorPage(`The username ${invite.username} is already taken.`))
+  }
+
+  await createUser(c.env.GEMFLARE_KV, invite.username, password as string, invite.isAdmin)
+  await deleteInvite(c.env.GEMFLARE_KV, invite.token)
+
+  return c.redirect('/login')
+})
+
+// API keys page (web UI)
+app.get('/api-keys', jwtAuth, async (c) => {
+  const user = c.get('user') as AuthUser
+  const apiKeys = await listApiKeys(c.env.GEMFLARE_KV, user.username)
+  const currentUrl = new URL(c.req.url).origin
+
+  return c.html(apiKeysPage(apiKeys, currentUrl, user.isAdmin))
+})
+
+// Create an API key (web UI)
+app.post('/api-keys', jwtAuth, async (c) => {
+  const user = c.get('user') as AuthUser
+  const body = await c.req.parseBody({ all: true })
+  const name = ((body['name'] as string) || '').trim()
+  const requested = ([] as unknown[]).concat(body['scopes'] || [])
+  const scopes = API_KEY_SCOPES.filter(scope => requested.includes(scope))
+  const expiresInDays = parseInt(body['expires_in_days'] as string, 10)
+  const currentUrl = new URL(c.req.url).origin
+
+  if (!name || scopes.length === 0) {
+    const apiKeys = await listApiKeys(c.env.GEMFLARE_KV, user.username)
+    return c.html(apiKeysPage(apiKeys, currentUrl, user.isAdmin, { error: 'Please enter a name and select at least one scope.' }))
+  }
+
+  const expiresAt = expiresInDays > 0
+    ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+    : undefined
+
+  const { key } = await createApiKey(c.env.GEMFLARE_KV, user.username, name, scopes, expiresAt)
+  const apiKeys = await listApiKeys(c.env.GEMFLARE_KV, user.username)
+
+  return c.html(apiKeysPage(apiKeys, currentUrl, user.isAdmin, { newKey: key }))
+})
+
+// Revoke an API key (web UI)
+app.post('/api-keys/:id/revoke', jwtAuth, async (c) => {
+  const user = c.get('user') as AuthUser
+  const revoked = await revokeApiKey(c.env.GEMFLARE_KV, user.username, c.req.param('id'))
+
+  if (!revoked) {
+    return c.html(errorPage('API key not found', true))
+  }
+
+  return c.redirect('/api-keys')
+})
+
 // Add specs.4.8.gz endpoint for RubyGems compatibility
-app.get('/specs.4.8.gz', async (c) => {
+app.get('/specs.4.8.gz', readAuth, async (c) => {
   try {
     console.log('Serving specs.4.8.gz from R2');
     
@@ -453,7 +1028,7 @@ app.get('/specs.4.8.gz', async (c) => {
 });
 
 // Add latest_specs.4.8.gz endpoint
-app.get('/latest_specs.4.8.gz', async (c) => {
+app.get('/latest_specs.4.8.gz', readAuth, async (c) => {
   try {
     console.log('Serving latest_specs.4.8.gz from R2');
     
@@ -472,7 +1047,7 @@ app.get('/latest_specs.4.8.gz', async (c) => {
 });
 
 // Add prerelease_specs.4.8.gz endpoint
-app.get('/prerelease_specs.4.8.gz', async (c) => {
+app.get('/prerelease_specs.4.8.gz', readAuth, async (c) => {
   try {
     console.log('Serving prerelease_specs.4.8.gz from R2');
     
@@ -494,18 +1069,12 @@ app.get('/prerelease_specs.4.8.gz', async (c) => {
 // https://blog.packagecloud.io/evolution-of-rubygem-index-from-marshal48gz-specs48gz-latest_specs48gz-bundler-api-to-compact-index/
 
 // Compact Index - info endpoint (root)
-app.get('/info', async (c) => {
+app.get('/info', readAuth, async (c) => {
   try {
     console.log('Generating info index');
     
     // Return an empty response for the root info endpoint
-    return new Response('', {
-      headers: {
-        'Content-Type': 'text/plain',
-        'ETag': `"${Date.now().toString(16)}"`,
-        'Cache-Control': 'max-age=60'
-      }
-    });
+    return compactIndexResponse(c.req.raw, '');
   } catch (error) {
     console.error('Error generating info index:', error);
     return new Response('Error', { status: 500 });
@@ -513,40 +1082,48 @@ app.get('/info', async (c) => {
 });
 
 // Compact Index - info endpoint
-app.get('/info/:name', async (c) => {
+app.get('/info/:name', readAuth, async (c) => {
   try {
     const gemName = c.req.param('name');
     console.log(`Generating info for ${gemName}`);
     
-    const content = await generateInfoContent(c.env.GEMFLARE_KV, gemName);
-    
-    return new Response(content, {
-      headers: {
-        'Content-Type': 'text/plain',
-        'ETag': `"${Date.now().toString(16)}"`,
-        'Cache-Control': 'max-age=60'
+    const stored = await compactIndexFileResponse(c.req.raw, c.env.GEMFLARE_BUCKET, `info/${gemName}`);
+    if (stored) {
+      return stored;
+    }
+
+    // Fall back to KV when the compact index hasn't been built yet
+    const content = await generateInfoContent(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, gemName);
+    if (content === null) {
+      // Only names GemFlare doesn't host or reserve are looked up upstream
+      const upstreamContent = await isLocalName(c.env, gemName) ? null : await fetchUpstreamInfo(c.env, gemName);
+      if (upstreamContent !== null) {
+        return compactIndexResponse(c.req.raw, upstreamContent);
       }
-    });
+
+      return new Response('Not Found', { status: 404 });
+    }
+    
+    return compactIndexResponse(c.req.raw, content);
   } catch (error) {
     console.error('Error generating info:', error);
-    return new Response('Not Found', { status: 404 });
+    return new Response('Error generating info', { status: 500 });
   }
 });
 
 // Compact Index - names endpoint
-app.get('/names', async (c) => {
+app.get('/names', readAuth, async (c) => {
   try {
     console.log('Generating names list');
     
+    const stored = await compactIndexFileResponse(c.req.raw, c.env.GEMFLARE_BUCKET, 'names');
+    if (stored) {
+      return stored;
+    }
+
     const content = await generateNamesContent(c.env.GEMFLARE_KV);
     
-    return new Response(content, {
-      headers: {
-        'Content-Type': 'text/plain',
-        'ETag': `"${Date.now().toString(16)}"`,
-        'Cache-Control': 'max-age=60'
-      }
-    });
+    return compactIndexResponse(c.req.raw, content);
   } catch (error) {
     console.error('Error generating names:', error);
     return new Response('Error generating names', { status: 500 });
@@ -554,36 +1131,37 @@ app.get('/names', async (c) => {
 });
 
 // Compact Index - versions endpoint
-app.get('/versions', async (c) => {
+app.get('/versions', readAuth, async (c) => {
   try {
     console.log('Generating versions list');
     
+    // A mirror serves the merged upstream and local file once the Cron Trigger has built it
+    const mirrored = upstreamUrl(c.env) ? await compactIndexFileResponse(c.req.raw, c.env.GEMFLARE_BUCKET, MIRRORED_VERSIONS_PATH) : null;
+    if (mirrored) {
+      return mirrored;
+    }
+
+    const stored = await compactIndexFileResponse(c.req.raw, c.env.GEMFLARE_BUCKET, 'versions');
+    if (stored) {
+      return stored;
+    }
+
     const content = await generateVersionsContent(c.env.GEMFLARE_KV);
-    
-    return new Response(content, {
-      headers: {
-        'Content-Type': 'text/plain',
-        'ETag': `"${Date.now().toString(16)}"`,
-        'Cache-Control': 'max-age=60'
-      }
-    });
+    return compactIndexResponse(c.req.raw, content);
   } catch (error) {
     console.error('Error generating versions:', error);
     return new Response('Error generating versions', { status: 500 });
   }
 });
 
-// Compact Index - root endpoint
-app.get('/api/v1/dependencies', async (c) => {
-  const url = new URL(c.req.url);
-  return c.redirect(`${url.protocol}//${url.host}/info`);
-});
-
 // Admin routes
 const admin = new Hono<{ Bindings: CloudflareBindings }>()
 
+// Every admin route requires a logged-in administrator
+admin.use('*', jwtAuth, requireAdmin)
+
 // Admin endpoint to manually update specs index files
-admin.get('/update-specs', jwtAuth, async (c) => {
+admin.get('/update-specs', async (c) => {
   try {
     console.log('Manually updating specs index files');
     
@@ -609,10 +1187,311 @@ admin.get('/update-specs', jwtAuth, async (c) => {
   }
 });
 
+// Admin endpoint to rebuild the precomputed compact index files from KV
+admin.get('/update-compact-index', async (c) => {
+  try {
+    console.log('Manually rebuilding compact index files');
+
+    const gemsCount = await rebuildCompactIndexInR2(c.env.GEMFLARE_BUCKET, c.env.GEMFLARE_KV);
+
+    return c.json({
+      success: true,
+      message: 'Compact index files rebuilt successfully',
+      gems_count: gemsCount
+    });
+  } catch (error) {
+    console.error('Error rebuilding compact index files:', error);
+    return c.json({
+      success: false,
+      message: 'Error rebuilding compact index files',
+      error: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// Admin endpoint to rebuild the search index from KV
+admin.get('/update-search-index', async (c) => {
+  try {
+    console.log('Manually rebuilding search index');
+
+    const entries = await rebuildSearchIndex(c.env);
+
+    return c.json({
+      success: true,
+      message: 'Search index rebuilt successfully',
+      gems_count: entries.length
+    });
+  } catch (error) {
+    console.error('Error rebuilding search index:', error);
+    return c.json({
+      success: false,
+      message: 'Error rebuilding search index',
+      error: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// Admin endpoint to refresh the mirrored /versions file without waiting for the Cron Trigger
+admin.get('/update-upstream-versions', async (c) => {
+  if (!upstreamUrl(c.env)) {
+    return c.json({ success: false, message: 'UPSTREAM_URL is not set' }, 400);
+  }
+
+  try {
+    console.log('Manually refreshing mirrored versions file');
+
+    if (!await refreshUpstreamVersions(c.env)) {
+      return c.json({ success: false, message: 'Could not read the upstream versions file' }, 502);
+    }
+
+    return c.json({
+      success: true,
+      message: 'Mirrored versions file refreshed successfully'
+    });
+  } catch (error) {
+    console.error('Error refreshing mirrored versions file:', error);
+    return c.json({
+      success: false,
+      message: 'Error refreshing mirrored versions file',
+      error: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// Admin endpoint to move gem files stored under old R2 keys to gems/<name>-<version>[-<platform>].gem,
+// one batch per request starting at ?cursor=
+admin.post('/migrate-gem-files', async (c) => {
+  try {
+    const cursor = c.req.query('cursor');
+    console.log(`Migrating gem files to platform-aware R2 keys from ${cursor || 'the start'}`);
+
+    const result = await migrateGemObjects(c.env, cursor);
+
+    return c.json({
+      success: result.failed.length === 0,
+      message: `Moved ${result.moved.length} gem files and ${result.records.length} gem records, removed ${result.removed.length} duplicates`,
+      ...result
+    }, result.failed.length === 0 ? 200 : 500);
+  } catch (error) {
+    console.error('Error migrating gem files:', error);
+    return c.json({
+      success: false,
+      message: 'Error migrating gem files',
+      error: error instanceof Error ? error.message : String(error)
+    }, 500);
+  }
+});
+
+// Admin endpoint to yank a gem version from the web UI
+admin.post('/gems/:name/:version/yank', async (c) => {
+  const name = c.req.param('name');
+  const slug = c.req.param('version');
+
+  const existing = await findGemVersion(c.env.GEMFLARE_KV, name, slug);
+  const gem = existing && await yankGem(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name, existing.version, existing.platform);
+  if (!gem) {
+    return c.html(errorPage(`Gem ${name} version ${slug} not found`, true));
+  }
+
+  await refreshSpecsIndex(c.env, name);
+  await refreshCompactIndex(c.env, { name, version: gem.version, platform: gem.platform, removed: true });
+  await refreshSearchIndex(c.env, name);
+  return c.redirect(`/gems/${name}/${slug}`);
+});
+
+// Admin endpoint to restore a yanked gem version
+admin.post('/gems/:name/:version/unyank', async (c) => {
+  const name = c.req.param('name');
+  const slug = c.req.param('version');
+
+  const existing = await findGemVersion(c.env.GEMFLARE_KV, name, slug);
+  const gem = existing && await unyankGem(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name, existing.version, existing.platform);
+  if (!gem) {
+    return c.html(errorPage(`Gem ${name} version ${slug} not found`, true));
+  }
+
+  await refreshSpecsIndex(c.env, name);
+  await refreshCompactIndex(c.env, { name, version: gem.version, platform: gem.platform });
+  await refreshSearchIndex(c.env, name);
+  return c.redirect(`/gems/${name}/${slug}`);
+});
+
+// Admin endpoint to permanently delete a gem version, including its R2 object
+admin.post('/gems/:name/:version/delete', async (c) => {
+  const name = c.req.param('name');
+  const slug = c.req.param('version');
+
+  const gem = await findGemVersion(c.env.GEMFLARE_KV, name, slug);
+  if (!gem || !await deleteGem(c.env.GEMFLARE_KV, c.env.GEMFLARE_BUCKET, name, gem.version, gem.platform)) {
+    return c.html(errorPage(`Gem ${name} version ${slug} not found`, true));
+  }
+
+  await refreshSpecsIndex(c.env, name);
+  await refreshCompactIndex(c.env, { name, version: gem.version, platform: gem.platform, removed: true });
+  await refreshSearchIndex(c.env, name);
+  return c.redirect('/gems');
+});
+
+// Check that a new username is valid and not already taken
+async function checkNewUsername(env: CloudflareBindings, username: string): Promise<string | null> {
+  const invalid = validateUsername(username);
+  if (invalid) {
+    return invalid;
+  }
+
+  if (username === env.ADMIN_USERNAME || await getUser(env.GEMFLARE_KV, username)) {
+    return `The username ${username} is already taken.`;
+  }
+
+  return null;
+}
+
+// User management page
+admin.get('/users', async (c) => {
+  const users = await listUsers(c.env.GEMFLARE_KV);
+  return c.html(usersPage(users, c.env.ADMIN_USERNAME));
+});
+
+// Create a user with an initial password
+admin.post('/users', async (c) => {
+  const body = await c.req.parseBody();
+  const username = ((body['username'] as string) || '').trim();
+  const password = (body['password'] as string) || '';
+  const isAdmin = body['is_admin'] === 'on';
+
+  const error = await checkNewUsername(c.env, username) || validatePassword(password);
+  if (error) {
+    const users = await listUsers(c.env.GEMFLARE_KV);
+    return c.html(usersPage(users, c.env.ADMIN_USERNAME, { error }));
+  }
+
+  await createUser(c.env.GEMFLARE_KV, username, password, isAdmin);
+  return c.redirect('/admin/users');
+});
+
+// Invite a user, who then picks their own password
+admin.post('/users/invite', async (c) => {
+  const currentUser = c.get('user') as AuthUser;
+  const body = await c.req.parseBody();
+  const username = ((body['username'] as string) || '').trim();
+  const isAdmin = body['is_admin'] === 'on';
+  const users = await listUsers(c.env.GEMFLARE_KV);
+
+  const error = await checkNewUsername(c.env, username);
+  if (error) {
+    return c.html(usersPage(users, c.env.ADMIN_USERNAME, { error }));
+  }
+
+  const invite = await createInvite(c.env.GEMFLARE_KV, username, isAdmin, currentUser.username);
+  const inviteUrl = `${new URL(c.req.url).origin}/invite/${invite.token}`;
+
+  return c.html(usersPage(users, c.env.ADMIN_USERNAME, { inviteUrl }));
+});
+
+// Disable or re-enable a user
+admin.post('/users/:username/disable', async (c) => {
+  const user = await getUser(c.env.GEMFLARE_KV, c.req.param('username'));
+  if (!user) {
+    return c.html(errorPage('User not found', true));
+  }
+
+  user.disabled = !user.disabled;
+  await saveUser(c.env.GEMFLARE_KV, user);
+  return c.redirect('/admin/users');
+});
+
+// Reset a user's password
+admin.post('/users/:username/password', async (c) => {
+  const user = await getUser(c.env.GEMFLARE_KV, c.req.param('username'));
+  if (!user) {
+    return c.html(errorPage('User not found', true));
+  }
+
+  const { password } = await c.req.parseBody();
+  const error = validatePassword((password as string) || '');
+  if (error) {
+    const users = await listUsers(c.env.GEMFLARE_KV);
+    return c.html(usersPage(users, c.env.ADMIN_USERNAME, { error }));
+  }
+
+  user.passwordHash = await hashUserPassword(password as string);
+  await saveUser(c.env.GEMFLARE_KV, user);
+  return c.redirect('/admin/users');
+});
+
+// Reserved gem name patterns (admin only)
+admin.get('/reservations', async (c) => {
+  const reservations = await listReservations(c.env.GEMFLARE_KV);
+  return c.html(reservationsPage(reservations));
+});
+
+// Create or replace a reservation
+admin.post('/reservations', async (c) => {
+  const body = await c.req.parseBody();
+  const pattern = ((body['pattern'] as string) || '').trim();
+  const owners = [...new Set(((body['owners'] as string) || '').split(',').map(owner => owner.trim()).filter(Boolean))];
+  const note = ((body['note'] as string) || '').trim();
+
+  let error = validateReservationPattern(pattern);
+  if (!error && owners.length === 0) {
+    error = 'Please list at least one user who may push these gems.';
+  }
+  if (!error) {
+    const unknown: string[] = [];
+    for (const owner of owners) {
+      if (!await findUser(c.env, owner)) {
+        unknown.push(owner);
+      }
+    }
+    if (unknown.length > 0) {
+      error = `Unknown users: ${unknown.join(', ')}`;
+    }
+  }
+
+  if (error) {
+    const reservations = await listReservations(c.env.GEMFLARE_KV);
+    return c.html(reservationsPage(reservations, { error }));
+  }
+
+  await saveReservation(c.env.GEMFLARE_KV, {
+    pattern,
+    owners,
+    note: note || undefined,
+    createdBy: (c.get('user') as AuthUser).username,
+    createdAt: new Date().toISOString()
+  });
+  return c.redirect('/admin/reservations');
+});
+
+// Remove a reservation
+admin.post('/reservations/delete', async (c) => {
+  const body = await c.req.parseBody();
+  await deleteReservation(c.env.GEMFLARE_KV, (body['pattern'] as string) || '');
+  return c.redirect('/admin/reservations');
+});
+
 // Mount admin routes
 app.route('/admin', admin);
 
 // Mount API routes
 app.route('', api)
 
-export default app
+// Durable Object class for the optional DOWNLOAD_COUNTER binding
+export { DownloadCounter }
+
+export default {
+  fetch: app.fetch,
+
+  // Cron Trigger: fold the KV download counters and refresh the mirrored upstream /versions file
+  async scheduled(_controller: ScheduledController, env: CloudflareBindings, ctx: ExecutionContext) {
+    ctx.waitUntil(foldDownloadCounters(env).catch(error => {
+      console.error('Error folding download counters:', error)
+    }))
+
+    if (upstreamUrl(env)) {
+      ctx.waitUntil(refreshUpstreamVersions(env).catch(error => {
+        console.error('Error refreshing mirrored versions file:', error)
+      }))
+    }
+  }
+}
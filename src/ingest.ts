@@ -0,0 +1,240 @@
+import { AuthUser, CloudflareBindings, GemMetadata } from './types';
+import {
+  CompactIndexChange,
+  InvalidGemError,
+  assertNotRepush,
+  canManageGem,
+  canPushReservedName,
+  extractGemMetadata,
+  extractGemspec,
+  gemObjectKey,
+  getGem,
+  moveLegacyPlatformRecord,
+  saveGem,
+  saveQuickSpec,
+  setGemOwners,
+  updateCompactIndexInR2,
+  updateGemSpecsInR2
+} from './utils';
+import { updateSearchIndex } from './search';
+import { saveGemContents } from './contents';
+
+export type PushSource = 'api' | 'web';
+
+export interface AuditEvent {
+  action: 'push' | 'migrate';
+  user?: string;
+  source?: PushSource;
+  name: string;
+  version: string;
+  platform?: string;
+  sha256?: string;
+  size?: number;
+  from?: string;
+  to?: string;
+  at: string;
+}
+
+export interface GemObjectMigration {
+  moved: { from: string; to: string }[];
+  removed: string[];
+  records: { from: string; to: string }[]; // KV records of platform gems moved to their own keys
+  failed: { key: string; error: string }[];
+  cursor: string | null; // where the next batch starts, null once every file was checked
+}
+
+// Update the specs index files after the versions of one gem change
+export async function refreshSpecsIndex(env: CloudflareBindings, name: string): Promise<void> {
+  try {
+    console.log(`Updating specs index files for ${name}`);
+    await updateGemSpecsInR2(env.GEMFLARE_BUCKET, env.GEMFLARE_KV, name);
+    console.log('Specs index files updated successfully');
+  } catch (updateError) {
+    console.error('Error updating specs index:', updateError);
+    // Callers continue with their response even if updating specs fails. An admin can rebuild
+    // the specs index from /admin/update-specs
+  }
+}
+
+// Store the legacy Marshal gemspec served from /quick/Marshal.4.8/
+export async function storeQuickSpec(env: CloudflareBindings, gemFile: ArrayBuffer): Promise<void> {
+  try {
+    await saveQuickSpec(env.GEMFLARE_BUCKET, gemFile);
+  } catch (error) {
+    console.error('Error storing quick spec:', error);
+    // The quick spec is rebuilt from the .gem file the first time it is requested
+  }
+}
+
+// Index the files packaged in the gem for the Files tab and README of its page
+export async function storeGemContents(env: CloudflareBindings, gem: GemMetadata, gemFile: ArrayBuffer): Promise<void> {
+  try {
+    await saveGemContents(env, gem, gemFile);
+  } catch (error) {
+    console.error('Error storing gem contents:', error);
+    // The file list is built from the .gem file the first time the gem is viewed
+  }
+}
+
+// Update the precomputed compact index files after one gem version changes
+export async function refreshCompactIndex(env: CloudflareBindings, change: CompactIndexChange): Promise<void> {
+  try {
+    await updateCompactIndexInR2(env.GEMFLARE_BUCKET, env.GEMFLARE_KV, change);
+  } catch (updateError) {
+    console.error('Error updating compact index:', updateError);
+    // An admin can rebuild the compact index from /admin/update-compact-index
+  }
+}
+
+// Update the search entry of a gem after one of its versions changes
+export async function refreshSearchIndex(env: CloudflareBindings, name: string): Promise<void> {
+  try {
+    await updateSearchIndex(env, name);
+  } catch (updateError) {
+    console.error('Error updating search index:', updateError);
+    // An admin can rebuild the search index from /admin/update-search-index
+  }
+}
+
+// Audit events are kept in KV as audit:<timestamp>:<id> and echoed to the Workers log
+export async function recordAuditEvent(kv: KVNamespace, event: AuditEvent): Promise<void> {
+  console.log('Audit:', JSON.stringify(event));
+
+  try {
+    await kv.put(`audit:${event.at}:${crypto.randomUUID()}`, JSON.stringify(event));
+  } catch (error) {
+    console.error('Error recording audit event:', error);
+  }
+}
+
+// Publish a gem file for a user. Both `gem push` and the web upload form go through here, so
+// every gem is validated, stored and indexed the same way. Throws InvalidGemError for gems that
+// can't be accepted.
+export async function ingestGem(env: CloudflareBindings, gemFile: ArrayBuffer, user: AuthUser, source: PushSource): Promise<GemMetadata> {
+  const metadata = await extractGemMetadata(gemFile);
+
+  // Only owners (or admins) may publish new versions of an existing gem
+  if (!await canManageGem(env.GEMFLARE_KV, env.GEMFLARE_BUCKET, metadata.name, user)) {
+    throw new InvalidGemError('You do not have permission to push to this gem.', 403);
+  }
+  if (!await canPushReservedName(env.GEMFLARE_KV, metadata.name, user)) {
+    throw new InvalidGemError(`The name ${metadata.name} is reserved. Ask an administrator to add you to its reservation.`, 403);
+  }
+  await assertNotRepush(env.GEMFLARE_KV, metadata);
+  const isNewGem = !(await getGem(env.GEMFLARE_KV, env.GEMFLARE_BUCKET, metadata.name));
+
+  const key = gemObjectKey(metadata.name, metadata.version, metadata.platform);
+  console.log('Storing gem file in R2 with key:', key);
+  await env.GEMFLARE_BUCKET.put(key, gemFile);
+  await storeQuickSpec(env, gemFile);
+  await storeGemContents(env, metadata, gemFile);
+
+  await saveGem(env.GEMFLARE_KV, env.GEMFLARE_BUCKET, metadata);
+
+  // The first pusher of a new gem becomes its owner
+  if (isNewGem) {
+    await setGemOwners(env.GEMFLARE_KV, metadata.name, [user.username]);
+  }
+
+  await refreshSpecsIndex(env, metadata.name);
+  await refreshCompactIndex(env, { name: metadata.name, version: metadata.version, platform: metadata.platform });
+  await refreshSearchIndex(env, metadata.name);
+
+  await recordAuditEvent(env.GEMFLARE_KV, {
+    action: 'push',
+    user: user.username,
+    source,
+    name: metadata.name,
+    version: metadata.version,
+    platform: metadata.platform,
+    sha256: metadata.sha256,
+    size: metadata.size,
+    at: new Date().toISOString()
+  });
+
+  return metadata;
+}
+
+// Gem files are migrated one page of R2 objects per request, so a request stays within the
+// Workers subrequest, CPU and memory limits however many gems are stored
+const GEM_MIGRATION_BATCH_SIZE = 10;
+
+// Objects at the bucket root are listed first, then those under gems/. A cursor names the listing
+// to continue and the R2 cursor within it, e.g. "gems:<R2 cursor>".
+async function listGemObjectBatch(r2: R2Bucket, cursor?: string): Promise<{ keys: string[]; cursor: string | null }> {
+  const separator = (cursor || 'root:').indexOf(':');
+  const listing = (cursor || 'root:').slice(0, separator);
+  const listCursor = (cursor || 'root:').slice(separator + 1) || undefined;
+  if (listing !== 'root' && listing !== 'gems') {
+    throw new Error(`Invalid migration cursor ${JSON.stringify(cursor)}`);
+  }
+
+  const result = await r2.list({
+    ...(listing === 'root' ? { delimiter: '/' } : { prefix: 'gems/' }),
+    limit: GEM_MIGRATION_BATCH_SIZE,
+    cursor: listCursor
+  });
+  const keys = result.objects.map(object => object.key).filter(key => key.endsWith('.gem'));
+
+  if (result.truncated) {
+    return { keys, cursor: `${listing}:${result.cursor}` };
+  }
+  return { keys, cursor: listing === 'root' ? 'gems:' : null };
+}
+
+// Move gem files stored under the wrong R2 key to gems/<name>-<version>[-<platform>].gem.
+// Older web uploads were stored at the bucket root, and platform gems were pushed without
+// their platform in the key (in R2 and in KV). Each call migrates one batch; call again with
+// the returned cursor until it is null. Migrating a file twice is harmless.
+export async function migrateGemObjects(env: CloudflareBindings, cursor?: string): Promise<GemObjectMigration> {
+  const bucket = env.GEMFLARE_BUCKET;
+  const batch = await listGemObjectBatch(bucket, cursor);
+  const result: GemObjectMigration = { moved: [], removed: [], records: [], failed: [], cursor: batch.cursor };
+  const keys = batch.keys;
+
+  for (const key of keys) {
+    try {
+      const object = await bucket.get(key);
+      if (!object) continue;
+
+      const gemFile = await object.arrayBuffer();
+      const spec = await extractGemspec(gemFile);
+      const target = gemObjectKey(spec.name, spec.version, spec.platform);
+
+      if (spec.platform && spec.platform !== 'ruby') {
+        const record = await moveLegacyPlatformRecord(env.GEMFLARE_KV, env.GEMFLARE_BUCKET, spec.name, spec.version);
+        if (record) {
+          result.records.push({ from: `gem:${spec.name}:${spec.version}`, to: record });
+        }
+      }
+
+      if (target === key) continue;
+
+      // A copy already at the right key wins; the stray object is just removed
+      if (await bucket.head(target)) {
+        await bucket.delete(key);
+        result.removed.push(key);
+        continue;
+      }
+
+      await bucket.put(target, gemFile);
+      await bucket.delete(key);
+      result.moved.push({ from: key, to: target });
+
+      await recordAuditEvent(env.GEMFLARE_KV, {
+        action: 'migrate',
+        name: spec.name,
+        version: spec.version,
+        platform: spec.platform,
+        from: key,
+        to: target,
+        at: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error(`Error migrating ${key}:`, error);
+      result.failed.push({ key, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,160 @@
+import { html } from 'hono/html';
+
+// A small Markdown renderer for gem READMEs. It handles headings, paragraphs, lists, block
+// quotes, code and the common inline markup. All text goes through hono's html escaping, so raw
+// HTML in a README is shown as text, and only http(s) and mailto links are turned into links.
+
+type Fragment = string | ReturnType<typeof html>;
+
+const INLINE_PATTERN = /(`+)([\s\S]+?)\1|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s][^*]*?)\*|\b_([^_\s][^_]*?)_\b|(!?)\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)|<((?:https?:\/\/|mailto:)[^>\s]+)>/g;
+
+const isSafeUrl = (url: string) => /^(https?:\/\/|mailto:)/i.test(url);
+
+const link = (url: string, text: Fragment[]) =>
+  html`<a href="${url}" class="text-red-600 hover:underline" rel="nofollow noopener">${text}</a>`;
+
+function renderInline(text: string): Fragment[] {
+  const fragments: Fragment[] = [];
+  let position = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    fragments.push(text.slice(position, match.index));
+    position = match.index! + match[0].length;
+
+    const [, , code, strong, strongAlt, em, emAlt, image, label, url, autolink] = match;
+
+    if (code !== undefined) {
+      fragments.push(html`<code class="bg-gray-100 px-1 rounded text-sm">${code.trim()}</code>`);
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      fragments.push(html`<strong>${renderInline(strong ?? strongAlt)}</strong>`);
+    } else if (em !== undefined || emAlt !== undefined) {
+      fragments.push(html`<em>${renderInline(em ?? emAlt)}</em>`);
+    } else if (url !== undefined) {
+      // Images are linked rather than embedded, so a README can't load remote content
+      const text = image ? [label || url] : renderInline(label);
+      fragments.push(isSafeUrl(url) ? link(url, text) : text);
+    } else {
+      fragments.push(link(autolink, [autolink]));
+    }
+  }
+
+  fragments.push(text.slice(position));
+  return fragments;
+}
+
+const HEADINGS = [
+  (content: Fragment[]) => html`<h1 class="text-2xl font-bold mt-6 mb-3">${content}</h1>`,
+  (content: Fragment[]) => html`<h2 class="text-xl font-bold mt-6 mb-3">${content}</h2>`,
+  (content: Fragment[]) => html`<h3 class="text-lg font-semibold mt-4 mb-2">${content}</h3>`,
+  (content: Fragment[]) => html`<h4 class="font-semibold mt-4 mb-2">${content}</h4>`,
+  (content: Fragment[]) => html`<h5 class="font-semibold mt-4 mb-2">${content}</h5>`,
+  (content: Fragment[]) => html`<h6 class="font-semibold mt-4 mb-2">${content}</h6>`
+];
+
+const heading = (level: number, text: string) => HEADINGS[level - 1](renderInline(text));
+
+const codeBlock = (lines: string[]) =>
+  html`<pre class="bg-gray-100 p-3 rounded my-3 overflow-x-auto text-sm"><code>${lines.join('\n')}</code></pre>`;
+
+const LIST_ITEM = /^\s{0,3}([-*+]|\d+[.)])\s+(.*)$/;
+const BLOCK_START = /^(\s{0,3}(#{1,6}\s|```|~~~|>|([-*+]|\d+[.)])\s)|\s{4})/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+
+export function renderMarkdown(source: string): Fragment[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Fragment[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block
+    const fence = line.match(/^\s{0,3}(```|~~~)/);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push(codeBlock(code));
+      continue;
+    }
+
+    // Indented code block
+    if (/^( {4}|\t)/.test(line)) {
+      const code: string[] = [];
+      while (i < lines.length && (/^( {4}|\t)/.test(lines[i]) || !lines[i].trim())) {
+        code.push(lines[i++].replace(/^( {4}|\t)/, ''));
+      }
+      while (code.length > 0 && !code[code.length - 1].trim()) code.pop();
+      blocks.push(codeBlock(code));
+      continue;
+    }
+
+    const atxHeading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)(\s+#+)?\s*$/);
+    if (atxHeading) {
+      blocks.push(heading(atxHeading[1].length, atxHeading[2]));
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push(html`<hr class="my-4">`);
+      i++;
+      continue;
+    }
+
+    if (/^\s{0,3}>/.test(line)) {
+      const quote: string[] = [];
+      while (i < lines.length && /^\s{0,3}>/.test(lines[i])) {
+        quote.push(lines[i++].replace(/^\s{0,3}>\s?/, ''));
+      }
+      blocks.push(html`<blockquote class="border-l-4 border-gray-300 pl-4 my-3 text-gray-700">${renderMarkdown(quote.join('\n'))}</blockquote>`);
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const ordered = /\d/.test(listItem[1]);
+      const items: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const item = lines[i].match(LIST_ITEM);
+        if (item) {
+          items.push(item[2]);
+        } else {
+          // Continuation of the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        }
+        i++;
+      }
+      const listItems = items.map(item => html`<li>${renderInline(item)}</li>`);
+      blocks.push(ordered
+        ? html`<ol class="list-decimal pl-6 my-3">${listItems}</ol>`
+        : html`<ul class="list-disc pl-6 my-3">${listItems}</ul>`);
+      continue;
+    }
+
+    // Paragraph, possibly turned into a heading by a following === or --- line
+    const paragraph: string[] = [line.trim()];
+    i++;
+    while (i < lines.length && lines[i].trim() && !BLOCK_START.test(lines[i]) && !/^\s{0,3}(=+|-+)\s*$/.test(lines[i])) {
+      paragraph.push(lines[i++].trim());
+    }
+
+    const underline = i < lines.length ? lines[i].match(/^\s{0,3}(=+|-+)\s*$/) : null;
+    if (underline) {
+      blocks.push(heading(underline[1].startsWith('=') ? 1 : 2, paragraph.join(' ')));
+      i++;
+    } else {
+      blocks.push(html`<p class="my-3">${renderInline(paragraph.join('\n'))}</p>`);
+    }
+  }
+
+  return blocks;
+}
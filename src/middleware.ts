@@ -1,7 +1,7 @@
 import { Context, Next } from 'hono';
-import { CloudflareBindings } from './types';
-import { verifyPassword } from './utils';
-import { getCookie } from 'hono/cookie';
+import { ApiKeyScope, AuthUser, CloudflareBindings } from './types';
+import { findApiKey, findUser, parseBasicAuth, verifyCredentials } from './auth';
+import { getSessionUser } from './session';
 
 // Basic authentication middleware
 export async function basicAuth(c: Context<{ Bindings: CloudflareBindings }>, next: Next) {
@@ -11,14 +11,87 @@ export async function basicAuth(c: Context<{ Bindings: CloudflareBindings }>, ne
     return unauthorized(c);
   }
   
-  const base64Credentials = authHeader.split(' ')[1];
-  const credentials = atob(base64Credentials);
-  const [username, password] = credentials.split(':');
+  const credentials = parseBasicAuth(authHeader);
+  const user = credentials && await verifyCredentials(c.env, credentials.username, credentials.password);
   
-  // Check against admin credentials
-  if (username === c.env.ADMIN_USERNAME) {
-    const isValid = await verifyPassword(password, c.env.ADMIN_PASSWORD_HASH);
-    if (isValid) {
+  if (user) {
+    c.set('user', user);
+    return next();
+  }
+  
+  return unauthorized(c);
+}
+
+// API authentication middleware accepting either an API key or HTTP Basic credentials
+export function apiKeyAuth(scope: ApiKeyScope) {
+  return async (c: Context<{ Bindings: CloudflareBindings }>, next: Next) => {
+    const authHeader = c.req.header('Authorization');
+    
+    if (!authHeader) {
+      return unauthorized(c);
+    }
+    
+    if (authHeader.startsWith('Basic ')) {
+      return basicAuth(c, next);
+    }
+    
+    // gem push and gem yank send the raw API key as the Authorization header
+    const apiKey = await findApiKey(c.env.GEMFLARE_KV, authHeader.trim());
+    
+    if (!apiKey) {
+      return new Response('Access Denied. Please check your API key.', { status: 401 });
+    }
+    
+    if (!apiKey.scopes.includes(scope)) {
+      return new Response(`The API key doesn't have access to the ${scope} scope`, { status: 403 });
+    }
+    
+    // Keys stop working as soon as their owner is disabled
+    const user = await findUser(c.env, apiKey.username);
+    if (!user) {
+      return new Response('Access Denied. Please check your API key.', { status: 401 });
+    }
+    
+    c.set('user', { ...user, apiKey });
+    return next();
+  };
+}
+
+// Read authentication middleware for install-path routes, enforced only when PRIVATE_READS is enabled
+export async function readAuth(c: Context<{ Bindings: CloudflareBindings }>, next: Next) {
+  if (!isPrivateReads(c.env)) {
+    return next();
+  }
+  
+  const authHeader = c.req.header('Authorization');
+  
+  if (authHeader?.startsWith('Basic ')) {
+    const credentials = parseBasicAuth(authHeader);
+    if (credentials) {
+      // Bundler sends `user:token`, so the password may be a read token
+      const apiKey = await findApiKey(c.env.GEMFLARE_KV, credentials.password);
+      const user = apiKey
+        ? apiKey.scopes.includes('read') && await findUser(c.env, apiKey.username)
+        : await verifyCredentials(c.env, credentials.username, credentials.password);
+      
+      if (user) {
+        c.set('user', apiKey ? { ...user, apiKey } : user);
+        return next();
+      }
+    }
+  } else if (authHeader) {
+    const apiKey = await findApiKey(c.env.GEMFLARE_KV, authHeader.trim());
+    const user = apiKey && apiKey.scopes.includes('read') && await findUser(c.env, apiKey.username);
+    
+    if (user) {
+      c.set('user', { ...user, apiKey });
+      return next();
+    }
+  } else {
+    // Logged-in web UI users can download gems from the browser
+    const user = await getSessionUser(c);
+    if (user) {
+      c.set('user', user);
       return next();
     }
   }
@@ -26,28 +99,31 @@ export async function basicAuth(c: Context<{ Bindings: CloudflareBindings }>, ne
   return unauthorized(c);
 }
 
+export function isPrivateReads(env: CloudflareBindings): boolean {
+  return env.PRIVATE_READS === 'true';
+}
+
 // JWT authentication middleware (for web UI)
 export async function jwtAuth(c: Context<{ Bindings: CloudflareBindings }>, next: Next) {
-  const token = getCookie(c, 'auth_token');
+  const user = await getSessionUser(c);
   
-  if (!token) {
+  if (!user) {
     return c.redirect('/login');
   }
   
-  try {
-    // In a real implementation, you would verify the JWT token
-    // This is a simplified version
-    const payload = JSON.parse(atob(token.split('.')[1]));
-    
-    if (payload.exp < Date.now() / 1000) {
-      return c.redirect('/login');
-    }
-    
-    c.set('user', payload);
-    return next();
-  } catch (e) {
-    return c.redirect('/login');
+  c.set('user', user);
+  return next();
+}
+
+// Admin authorization middleware, used after jwtAuth
+export async function requireAdmin(c: Context<{ Bindings: CloudflareBindings }>, next: Next) {
+  const user = c.get('user') as AuthUser | undefined;
+  
+  if (!user || !user.isAdmin) {
+    return new Response('Forbidden', { status: 403 });
   }
+  
+  return next();
 }
 
 // Helper function for unauthorized responses
@@ -0,0 +1,137 @@
+import { CloudflareBindings, GemMetadata } from './types';
+import { getAllGems, getGemVersions } from './utils';
+import { latestVersion } from './version';
+
+// Gem search index, kept in R2 as one JSON file with an entry per gem so searches don't have to
+// read every KV record. It is updated whenever a gem version is pushed, yanked, unyanked or deleted.
+const SEARCH_INDEX_KEY = 'search/index.json';
+const SEARCH_INDEX_WRITE_ATTEMPTS = 5;
+const DESCRIPTION_LENGTH = 1000;
+
+export const SEARCH_PAGE_SIZE = 30;
+
+export interface SearchEntry {
+  name: string;
+  version: string;
+  platform?: string;
+  summary?: string;
+  description?: string;
+  authors?: string[];
+  licenses?: string[];
+  homepage?: string;
+}
+
+export interface SearchResults {
+  total: number;
+  page: number;
+  entries: SearchEntry[];
+}
+
+// The entry for a gem: its newest installable version, preferring releases over prereleases
+function searchEntry(versions: GemMetadata[]): SearchEntry | null {
+  const available = versions.filter(gem => !gem.yanked);
+  const latest = latestVersion(available.map(gem => gem.version));
+  const gem = available.find(candidate => candidate.version === latest);
+
+  if (!gem) {
+    return null;
+  }
+
+  return {
+    name: gem.name,
+    version: gem.version,
+    platform: gem.platform,
+    summary: gem.summary,
+    description: (gem.description || gem.info || '').slice(0, DESCRIPTION_LENGTH) || undefined,
+    authors: gem.authors,
+    licenses: gem.licenses,
+    homepage: gem.homepage
+  };
+}
+
+// Rebuild the search index from KV
+export async function rebuildSearchIndex(env: CloudflareBindings): Promise<SearchEntry[]> {
+  console.log('Rebuilding search index');
+  const gems = await getAllGems(env.GEMFLARE_KV);
+
+  const gemsByName: Record<string, GemMetadata[]> = {};
+  for (const gem of gems) {
+    (gemsByName[gem.name] ||= []).push(gem);
+  }
+
+  const entries = Object.values(gemsByName)
+    .map(searchEntry)
+    .filter((entry): entry is SearchEntry => entry !== null)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  await env.GEMFLARE_BUCKET.put(SEARCH_INDEX_KEY, JSON.stringify(entries), {
+    httpMetadata: { contentType: 'application/json' }
+  });
+
+  return entries;
+}
+
+async function getSearchIndex(env: CloudflareBindings): Promise<SearchEntry[]> {
+  const object = await env.GEMFLARE_BUCKET.get(SEARCH_INDEX_KEY);
+  return object ? await object.json<SearchEntry[]>() : rebuildSearchIndex(env);
+}
+
+// Update the entry of one gem, retrying when another request wrote the index first
+export async function updateSearchIndex(env: CloudflareBindings, name: string): Promise<void> {
+  const entry = searchEntry(await getGemVersions(env.GEMFLARE_KV, env.GEMFLARE_BUCKET, name));
+
+  for (let attempt = 0; attempt < SEARCH_INDEX_WRITE_ATTEMPTS; attempt++) {
+    const object = await env.GEMFLARE_BUCKET.get(SEARCH_INDEX_KEY);
+    if (!object) {
+      await rebuildSearchIndex(env);
+      return;
+    }
+
+    const entries = (await object.json<SearchEntry[]>()).filter(existing => existing.name !== name);
+    if (entry) {
+      entries.push(entry);
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    const written = await env.GEMFLARE_BUCKET.put(SEARCH_INDEX_KEY, JSON.stringify(entries), {
+      httpMetadata: { contentType: 'application/json' },
+      onlyIf: { etagMatches: object.etag }
+    });
+    if (written) {
+      return;
+    }
+
+    console.log('Search index changed during update, retrying');
+  }
+
+  throw new Error(`Could not update search index for ${name}`);
+}
+
+// Lower is better: exact name, name prefix, name substring, then summary or description
+function matchRank(entry: SearchEntry, query: string): number | null {
+  const name = entry.name.toLowerCase();
+
+  if (name === query) return 0;
+  if (name.startsWith(query)) return 1;
+  if (name.includes(query)) return 2;
+  if ((entry.summary || '').toLowerCase().includes(query)) return 3;
+  if ((entry.description || '').toLowerCase().includes(query)) return 4;
+  return null;
+}
+
+// Search gems by name, summary and description. An empty query lists every gem by name.
+export async function searchGems(env: CloudflareBindings, query: string, page: number = 1): Promise<SearchResults> {
+  const entries = await getSearchIndex(env);
+  const normalized = query.trim().toLowerCase();
+
+  const matches = normalized
+    ? entries
+      .map(entry => ({ entry, rank: matchRank(entry, normalized) }))
+      .filter((match): match is { entry: SearchEntry; rank: number } => match.rank !== null)
+      .sort((a, b) => a.rank - b.rank || a.entry.name.localeCompare(b.entry.name))
+      .map(match => match.entry)
+    : entries;
+
+  const start = (page - 1) * SEARCH_PAGE_SIZE;
+  return { total: matches.length, page, entries: matches.slice(start, start + SEARCH_PAGE_SIZE) };
+}
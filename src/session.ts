@@ -0,0 +1,171 @@
+import { Context } from 'hono';
+import { getCookie, setCookie } from 'hono/cookie';
+import { AuthUser, CloudflareBindings } from './types';
+import { findUser } from './auth';
+
+const SESSION_COOKIE = 'auth_token';
+const SESSION_TTL_SECONDS = 3600; // 1 hour, renewed while the user is active
+const SESSION_MAX_AGE_SECONDS = 7 * 24 * 3600; // Sessions can't be renewed past a week
+
+interface SessionPayload {
+  sub: string;
+  sid: string;
+  iat: number;
+  exp: number;
+  auth_time: number;
+}
+
+// Base64url helpers (RFC 7515)
+function base64UrlEncode(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(input: string): Uint8Array {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+// Sign a payload as an HS256 JWT
+export async function signJwt(payload: object, secret: string): Promise<string> {
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const body = base64UrlEncode(JSON.stringify(payload));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(`${header}.${body}`));
+
+  return `${header}.${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Verify an HS256 JWT and its expiry, returning the payload
+export async function verifyJwt<T extends { exp: number }>(token: string, secret: string): Promise<T | null> {
+  try {
+    const [header, body, signature] = token.split('.');
+    if (!header || !body || !signature) {
+      return null;
+    }
+
+    const { alg } = JSON.parse(new TextDecoder().decode(base64UrlDecode(header)));
+    if (alg !== 'HS256') {
+      return null;
+    }
+
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await hmacKey(secret),
+      base64UrlDecode(signature),
+      new TextEncoder().encode(`${header}.${body}`)
+    );
+    if (!valid) {
+      return null;
+    }
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(body))) as T;
+    if (typeof payload.exp !== 'number' || payload.exp < Date.now() / 1000) {
+      return null;
+    }
+
+    return payload;
+  } catch (e) {
+    return null;
+  }
+}
+
+async function issueToken(c: Context<{ Bindings: CloudflareBindings }>, username: string, sid: string, authTime: number) {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = {
+    sub: username,
+    sid,
+    iat: now,
+    exp: now + SESSION_TTL_SECONDS,
+    auth_time: authTime
+  };
+
+  // The KV record lets sessions be revoked server-side before the token expires
+  await c.env.GEMFLARE_KV.put(`session:${sid}`, JSON.stringify({ username, createdAt: new Date(authTime * 1000).toISOString() }), {
+    expirationTtl: SESSION_TTL_SECONDS
+  });
+
+  setCookie(c, SESSION_COOKIE, await signJwt(payload, c.env.SESSION_SECRET as string), {
+    path: '/',
+    httpOnly: true,
+    secure: new URL(c.req.url).protocol === 'https:',
+    sameSite: 'Strict',
+    maxAge: SESSION_TTL_SECONDS
+  });
+}
+
+// Start a web UI session for a user who has just logged in
+export async function createSession(c: Context<{ Bindings: CloudflareBindings }>, user: AuthUser): Promise<void> {
+  if (!c.env.SESSION_SECRET) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+
+  const sid = crypto.randomUUID();
+  await issueToken(c, user.username, sid, Math.floor(Date.now() / 1000));
+}
+
+// Return the user behind the session cookie, renewing the session when it is past half its lifetime
+export async function getSessionUser(c: Context<{ Bindings: CloudflareBindings }>): Promise<AuthUser | null> {
+  const token = getCookie(c, SESSION_COOKIE);
+  if (!token || !c.env.SESSION_SECRET) {
+    return null;
+  }
+
+  const payload = await verifyJwt<SessionPayload>(token, c.env.SESSION_SECRET);
+  if (!payload || !payload.sid) {
+    return null;
+  }
+
+  const session = await c.env.GEMFLARE_KV.get(`session:${payload.sid}`);
+  if (!session) {
+    console.log(`Session ${payload.sid} has been revoked`);
+    return null;
+  }
+
+  // Pick up role changes and disabled accounts immediately
+  const user = await findUser(c.env, payload.sub);
+  if (!user) {
+    return null;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const canRenew = now - payload.auth_time < SESSION_MAX_AGE_SECONDS;
+  if (canRenew && payload.exp - now < SESSION_TTL_SECONDS / 2) {
+    await issueToken(c, payload.sub, payload.sid, payload.auth_time);
+  }
+
+  return user;
+}
+
+// Revoke the current session and clear the cookie
+export async function destroySession(c: Context<{ Bindings: CloudflareBindings }>): Promise<void> {
+  const token = getCookie(c, SESSION_COOKIE);
+
+  if (token && c.env.SESSION_SECRET) {
+    const payload = await verifyJwt<SessionPayload>(token, c.env.SESSION_SECRET);
+    if (payload?.sid) {
+      await c.env.GEMFLARE_KV.delete(`session:${payload.sid}`);
+    }
+  }
+
+  setCookie(c, SESSION_COOKIE, '', {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'Strict',
+    maxAge: 0
+  });
+}
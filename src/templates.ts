@@ -1,7 +1,14 @@
 import { html } from 'hono/html';
-import { GemMetadata } from './types';
+import { ApiKey, GemDependency, GemMetadata, Invite, NameReservation, User } from './types';
+import { DownloadStats, dailySeries, downloadVersionKey } from './downloads';
+import { SearchEntry } from './search';
+import { GemContents, GemFileView, GemReadme } from './contents';
+import { renderMarkdown } from './markdown';
+import { compareVersions } from './version';
+import { gemVersionSlug } from './gemspec';
+import { FileChange, GemComparison } from './compare';
 
-export const layout = (content: string, isLoggedIn: boolean = false) => html`
+export const layout = (content: string, isLoggedIn: boolean = false, isAdmin: boolean = false) => html`
 <!DOCTYPE html>
 <html lang="en">
 <head>
@@ -18,6 +25,9 @@ export const layout = (content: string, isLoggedIn: boolean = false) => html`
         ${isLoggedIn ? html`
           <a href="/gems" class="mr-4">Gems</a>
           <a href="/upload" class="mr-4">Upload</a>
+          <a href="/api-keys" class="mr-4">API Keys</a>
+          ${isAdmin ? html`<a href="/admin/users" class="mr-4">Users</a>` : ''}
+          ${isAdmin ? html`<a href="/admin/reservations" class="mr-4">Reservations</a>` : ''}
           <a href="/logout" class="bg-red-800 px-3 py-1 rounded">Logout</a>
         ` : html`
           <a href="/login" class="bg-red-800 px-3 py-1 rounded">Login</a>
@@ -33,6 +43,17 @@ export const layout = (content: string, isLoggedIn: boolean = false) => html`
   <footer class="bg-gray-200 p-4 text-center text-gray-600 mt-8">
     <p>GemFlare - Private RubyGems Server</p>
   </footer>
+
+  <script>
+    // Forms with a data-confirm message ask before submitting. The message is read as data, so
+    // values in it are never run as script.
+    document.addEventListener('submit', function (event) {
+      var message = event.target.dataset.confirm;
+      if (message && !confirm(message)) {
+        event.preventDefault();
+      }
+    });
+  </script>
 </body>
 </html>
 `;
@@ -63,7 +84,39 @@ export const loginPage = (errorMessage?: string) => layout(html`
 </div>
 `, false);
 
-export const gemsListPage = (gems: GemMetadata[], isLoggedIn: boolean = false, currentUrl?: string) => layout(html`
+// Version and platform as shown in gem page URLs, e.g. "1.16.0-x86_64-linux"
+const versionSlug = (gem: { version: string; platform?: string }) => gemVersionSlug(gem.version, gem.platform);
+
+// Wrap case-insensitive occurrences of the search query in <mark>
+const highlight = (text: string, query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return text;
+  }
+
+  const parts = [];
+  let position = 0;
+  let index = text.toLowerCase().indexOf(needle);
+
+  while (index !== -1) {
+    parts.push(text.slice(position, index), html`<mark class="bg-yellow-200">${text.slice(index, index + needle.length)}</mark>`);
+    position = index + needle.length;
+    index = text.toLowerCase().indexOf(needle, position);
+  }
+  parts.push(text.slice(position));
+
+  return parts;
+};
+
+const pageLink = (query: string, page: number) => `/gems?${new URLSearchParams({ ...(query ? { query } : {}), page: String(page) })}`;
+
+export const gemsListPage = (
+  gems: (SearchEntry & { downloads: number })[],
+  isLoggedIn: boolean = false,
+  currentUrl?: string,
+  isAdmin: boolean = false,
+  search: { query: string; page: number; pages: number; total: number } = { query: '', page: 1, pages: 1, total: gems.length }
+) => layout(html`
 <div class="bg-white p-6 rounded-lg shadow-md">
   <h1 class="text-2xl font-bold mb-6">Available Gems</h1>
 
@@ -72,6 +125,13 @@ export const gemsListPage = (gems: GemMetadata[], isLoggedIn: boolean = false, c
     <pre class="bg-gray-100 p-3 rounded mt-2">source "${currentUrl || 'https://your-gemflare-url.workers.dev'}"</pre>
   </div>
 
+  <form action="/gems" method="GET" class="mb-6 flex">
+    <input class="flex-grow px-3 py-2 border border-gray-300 rounded mr-2" type="search" name="query" value="${search.query}" placeholder="Search gems by name, summary or description">
+    <button class="bg-red-600 text-white py-2 px-4 rounded hover:bg-red-700" type="submit">Search</button>
+  </form>
+
+  ${search.query ? html`<p class="mb-4 text-gray-600">${search.total} ${search.total === 1 ? 'gem' : 'gems'} matching "${search.query}"</p>` : ''}
+
   <table class="min-w-full bg-white">
     <thead>
       <tr>
@@ -84,31 +144,189 @@ export const gemsListPage = (gems: GemMetadata[], isLoggedIn: boolean = false, c
     <tbody>
       ${gems.map(gem => html`
         <tr>
-          <td class="py-2 px-4 border-b border-gray-200"><a href="/gems/${gem.name}" class="text-red-600 hover:underline">${gem.name}</a></td>
-          <td class="py-2 px-4 border-b border-gray-200"><a href="/gems/${gem.name}/${gem.version}" class="text-red-600 hover:underline">${gem.version}</a></td>
-          <td class="py-2 px-4 border-b border-gray-200">${gem.summary}</td>
+          <td class="py-2 px-4 border-b border-gray-200"><a href="/gems/${gem.name}" class="text-red-600 hover:underline">${highlight(gem.name, search.query)}</a></td>
+          <td class="py-2 px-4 border-b border-gray-200">
+            <a href="/gems/${gem.name}/${versionSlug(gem)}" class="text-red-600 hover:underline">${versionSlug(gem)}</a>
+          </td>
+          <td class="py-2 px-4 border-b border-gray-200">${highlight(gem.summary || gem.description || '', search.query)}</td>
           <td class="py-2 px-4 border-b border-gray-200">${gem.downloads}</td>
         </tr>
       `)}
     </tbody>
   </table>
+
+  ${search.pages > 1 ? html`
+    <div class="mt-6 flex justify-between items-center">
+      ${search.page > 1 ? html`<a href="${pageLink(search.query, search.page - 1)}" class="text-red-600 hover:underline">&larr; Previous</a>` : html`<span></span>`}
+      <span class="text-gray-600">Page ${search.page} of ${search.pages}</span>
+      ${search.page < search.pages ? html`<a href="${pageLink(search.query, search.page + 1)}" class="text-red-600 hover:underline">Next &rarr;</a>` : html`<span></span>`}
+    </div>
+  ` : ''}
 </div>
-`, isLoggedIn);
+`, isLoggedIn, isAdmin);
+
+// Homepage and metadata URIs (source_code_uri, changelog_uri, ...), limited to http(s) links
+const GEM_LINK_LABELS: Record<string, string> = {
+  homepage_uri: 'Homepage',
+  source_code_uri: 'Source Code',
+  changelog_uri: 'Changelog',
+  documentation_uri: 'Documentation',
+  bug_tracker_uri: 'Bug Tracker',
+  wiki_uri: 'Wiki',
+  mailing_list_uri: 'Mailing List',
+  funding_uri: 'Funding'
+};
+
+const gemLinks = (gem: GemMetadata): [string, string][] => {
+  const links: [string, string][] = gem.homepage ? [['Homepage', gem.homepage]] : [];
+
+  for (const [key, label] of Object.entries(GEM_LINK_LABELS)) {
+    const url = gem.metadata?.[key];
+    if (url && !links.some(([, existing]) => existing === url)) {
+      links.push([label, url]);
+    }
+  }
+
+  return links.filter(([, url]) => /^https?:\/\//i.test(url));
+};
+
+// Dependencies with the hosted version each one resolves to, when it is hosted here
+const dependencyList = (title: string, dependencies: GemDependency[], resolved: Record<string, string | null> = {}) => dependencies.length > 0 ? html`
+  <div class="mt-6">
+    <h2 class="text-lg font-semibold mb-2">${title}</h2>
+    <ul class="list-disc pl-5">
+      ${dependencies.map(dep => html`
+        <li>
+          <a href="/gems/${dep.name}" class="text-red-600 hover:underline">${dep.name}</a> <span class="font-mono text-sm">${dep.requirements}</span>
+          ${resolved[dep.name] ? html`<span class="text-sm text-gray-600">resolves to <a href="/gems/${dep.name}/${resolved[dep.name]}" class="text-red-600 hover:underline">${resolved[dep.name]}</a></span>` : ''}
+          ${resolved[dep.name] === null ? html`<span class="text-sm text-yellow-700">no hosted version matches</span>` : ''}
+        </li>
+      `)}
+    </ul>
+  </div>
+` : '';
+
+// Bar chart of the last 30 days of downloads, drawn as inline SVG
+const DOWNLOAD_CHART_DAYS = 30;
+
+const downloadsChart = (stats: DownloadStats) => {
+  const series = dailySeries(stats, DOWNLOAD_CHART_DAYS);
+  const max = Math.max(1, ...series.map(day => day.downloads));
+  const barWidth = 20;
+  const height = 100;
+
+  return html`
+    <div class="mt-6">
+      <h2 class="text-lg font-semibold mb-2">Downloads (last ${DOWNLOAD_CHART_DAYS} days)</h2>
+      <svg viewBox="0 0 ${series.length * barWidth} ${height}" class="w-full h-32 bg-gray-50 rounded" preserveAspectRatio="none" role="img" aria-label="Daily downloads">
+        ${series.map((day, i) => {
+          const barHeight = Math.round(day.downloads / max * (height - 4));
+          return html`<rect x="${i * barWidth + 2}" y="${height - barHeight}" width="${barWidth - 4}" height="${barHeight}" class="text-red-600" fill="currentColor"><title>${day.date}: ${day.downloads}</title></rect>`;
+        })}
+      </svg>
+      <div class="flex justify-between text-xs text-gray-500 mt-1">
+        <span>${series[0].date}</span>
+        <span>${series[series.length - 1].date}</span>
+      </div>
+    </div>
+  `;
+};
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const gemTabs = (gem: GemMetadata, active: 'overview' | 'files') => {
+  const tab = (label: string, href: string, selected: boolean) => selected
+    ? html`<a href="${href}" class="mr-6 pb-2 border-b-2 border-red-600 text-red-700 font-semibold">${label}</a>`
+    : html`<a href="${href}" class="mr-6 pb-2 text-gray-600 hover:text-red-600">${label}</a>`;
 
-export const gemDetailPage = (gem: GemMetadata, isLoggedIn: boolean = false, currentUrl?: string) => layout(html`
+  return html`
+    <div class="flex border-b border-gray-200 mb-6">
+      ${tab('Overview', `/gems/${gem.name}/${versionSlug(gem)}`, active === 'overview')}
+      ${tab('Files', `/gems/${gem.name}/${versionSlug(gem)}/files`, active === 'files')}
+    </div>
+  `;
+};
+
+const readmeSection = (readme: GemReadme) => html`
+  <div class="mt-6">
+    <h2 class="text-lg font-semibold mb-2">${readme.path}</h2>
+    <div class="border border-gray-200 rounded p-4 break-words">
+      ${readme.format === 'markdown'
+        ? renderMarkdown(readme.content)
+        : html`<pre class="whitespace-pre-wrap text-sm">${readme.content}</pre>`}
+    </div>
+  </div>
+`;
+
+// Every version of a gem, newest first, with links to compare each one with the version shown
+const versionsTable = (gem: GemMetadata, versions: GemMetadata[], downloads: DownloadStats) => html`
+  <div class="mt-6">
+    <h2 class="text-lg font-semibold mb-2">Versions</h2>
+    <table class="min-w-full bg-white">
+      <thead>
+        <tr>
+          <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Version</th>
+          <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Platform</th>
+          <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Released</th>
+          <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Downloads</th>
+          <th class="py-2 px-4 border-b border-gray-200 bg-gray-50"></th>
+        </tr>
+      </thead>
+      <tbody>
+        ${[...versions]
+          .sort((a, b) => compareVersions(b.version, a.version) || (a.platform || 'ruby').localeCompare(b.platform || 'ruby'))
+          .map(version => html`
+            <tr class="${versionSlug(version) === versionSlug(gem) ? 'bg-gray-50 font-semibold' : ''}">
+              <td class="py-2 px-4 border-b border-gray-200">
+                <a href="/gems/${version.name}/${versionSlug(version)}" class="text-red-600 hover:underline">${version.version}</a>
+                ${version.yanked ? html`<span class="ml-2 text-xs bg-yellow-200 text-yellow-800 px-2 py-1 rounded">yanked</span>` : ''}
+              </td>
+              <td class="py-2 px-4 border-b border-gray-200">${version.platform || 'ruby'}</td>
+              <td class="py-2 px-4 border-b border-gray-200">${version.created_at ? new Date(version.created_at).toLocaleDateString() : 'Unknown'}</td>
+              <td class="py-2 px-4 border-b border-gray-200 text-right">${downloads.versions[downloadVersionKey(version.version, version.platform)] || 0}</td>
+              <td class="py-2 px-4 border-b border-gray-200 text-right">
+                ${versionSlug(version) === versionSlug(gem) ? '' : html`<a href="/gems/${gem.name}/compare/${compareVersions(version.version, gem.version) < 0 ? `${versionSlug(version)}...${versionSlug(gem)}` : `${versionSlug(gem)}...${versionSlug(version)}`}" class="text-sm text-red-600 hover:underline">Compare</a>`}
+              </td>
+            </tr>
+          `)}
+      </tbody>
+    </table>
+  </div>
+`;
+
+export const gemDetailPage = (gem: GemMetadata, isLoggedIn: boolean = false, currentUrl?: string, isAdmin: boolean = false, owners: string[] = [], downloads: DownloadStats = { total: 0, versions: {}, daily: {} }, readme?: GemReadme, versions: GemMetadata[] = [], dependencyVersions: Record<string, string | null> = {}) => layout(html`
 <div class="bg-white p-6 rounded-lg shadow-md">
-  <h1 class="text-2xl font-bold mb-2">${gem.name} (${gem.version})</h1>
-  <p class="text-gray-600 mb-6">${gem.summary}</p>
+  <h1 class="text-2xl font-bold mb-2">
+    ${gem.name} (${versionSlug(gem)})
+    ${gem.yanked ? html`<span class="ml-2 align-middle text-sm bg-yellow-200 text-yellow-800 px-2 py-1 rounded">yanked</span>` : ''}
+  </h1>
+  <p class="text-gray-600 mb-6">${gem.summary || ''}</p>
+
+  ${gemTabs(gem, 'overview')}
+
+  ${gem.yanked ? html`
+    <div class="mb-6 p-3 bg-yellow-100 border border-yellow-400 text-yellow-800 rounded">
+      This version was yanked${gem.yanked_at ? ` on ${new Date(gem.yanked_at).toLocaleDateString()}` : ''} and is no longer available for installation.
+    </div>
+  ` : ''}
 
   <div class="grid grid-cols-1 md:grid-cols-2 gap-6">
     <div>
       <h2 class="text-lg font-semibold mb-2">Details</h2>
       <ul class="space-y-2">
-        <li><strong>Authors:</strong> ${gem.authors.join(', ')}</li>
-        <li><strong>Platform:</strong> ${gem.platform}</li>
-        <li><strong>SHA:</strong> <span class="font-mono text-sm">${gem.sha}</span></li>
-        <li><strong>Downloads:</strong> ${gem.downloads}</li>
-        <li><strong>Created:</strong> ${new Date(gem.createdAt).toLocaleDateString()}</li>
+        <li><strong>Authors:</strong> ${(gem.authors || []).join(', ')}</li>
+        <li><strong>Platform:</strong> ${gem.platform || 'ruby'}</li>
+        ${gem.licenses && gem.licenses.length > 0 ? html`<li><strong>Licenses:</strong> ${gem.licenses.join(', ')}</li>` : ''}
+        ${gem.required_ruby_version ? html`<li><strong>Required Ruby version:</strong> ${gem.required_ruby_version}</li>` : ''}
+        ${gem.executables && gem.executables.length > 0 ? html`<li><strong>Executables:</strong> ${gem.executables.join(', ')}</li>` : ''}
+        <li><strong>SHA256:</strong> <span class="font-mono text-sm break-all">${gem.sha256}</span></li>
+        <li><strong>Downloads:</strong> ${downloads.total} total, ${downloads.versions[downloadVersionKey(gem.version, gem.platform)] || 0} for this version</li>
+        <li><strong>Created:</strong> ${gem.created_at ? new Date(gem.created_at).toLocaleDateString() : 'Unknown'}</li>
+        <li><strong>Owners:</strong> ${owners.length > 0 ? owners.join(', ') : 'Administrators only'}</li>
       </ul>
     </div>
 
@@ -119,31 +337,214 @@ export const gemDetailPage = (gem: GemMetadata, isLoggedIn: boolean = false, cur
 gem "${gem.name}", "${gem.version}"</pre>
 
       <p class="mt-4">Or install directly:</p>
-      <pre class="bg-gray-100 p-3 rounded mt-2">gem install ${gem.name} -v ${gem.version} --source ${currentUrl || 'https://your-gemflare-url.workers.dev'}</pre>
+      <pre class="bg-gray-100 p-3 rounded mt-2">gem install ${gem.name} -v ${gem.version}${gem.platform && gem.platform !== 'ruby' ? ` --platform ${gem.platform}` : ''} --source ${currentUrl || 'https://your-gemflare-url.workers.dev'}</pre>
     </div>
   </div>
 
-  ${gem.info ? html`
+  ${gemLinks(gem).length > 0 ? html`
     <div class="mt-6">
-      <h2 class="text-lg font-semibold mb-2">Description</h2>
-      <p>${gem.info}</p>
+      <h2 class="text-lg font-semibold mb-2">Links</h2>
+      <ul class="space-y-1">
+        ${gemLinks(gem).map(([label, url]) => html`
+          <li><a href="${url}" class="text-red-600 hover:underline" rel="nofollow noopener">${label}</a></li>
+        `)}
+      </ul>
     </div>
   ` : ''}
 
-  ${gem.requirements.length > 0 ? html`
+  ${gem.description || gem.info ? html`
     <div class="mt-6">
-      <h2 class="text-lg font-semibold mb-2">Dependencies</h2>
-      <ul class="list-disc pl-5">
-        ${gem.requirements.map(req => html`
-          <li>${req}</li>
-        `)}
-      </ul>
+      <h2 class="text-lg font-semibold mb-2">Description</h2>
+      <p>${gem.description || gem.info}</p>
+    </div>
+  ` : ''}
+
+  ${readme ? readmeSection(readme) : ''}
+
+  ${downloadsChart(downloads)}
+
+  ${versions.length > 1 ? versionsTable(gem, versions, downloads) : ''}
+
+  ${dependencyList('Runtime Dependencies', (gem.dependencies || []).filter(dep => dep.type !== 'development'), dependencyVersions)}
+  ${dependencyList('Development Dependencies', (gem.dependencies || []).filter(dep => dep.type === 'development'))}
+
+  ${isAdmin ? html`
+    <div class="mt-6 flex">
+      ${gem.yanked ? html`
+        <form action="/admin/gems/${gem.name}/${versionSlug(gem)}/unyank" method="POST" class="mr-4">
+          <button class="bg-gray-600 text-white py-2 px-4 rounded hover:bg-gray-700" type="submit">Unyank</button>
+        </form>
+      ` : html`
+        <form action="/admin/gems/${gem.name}/${versionSlug(gem)}/yank" method="POST" class="mr-4">
+          <button class="bg-yellow-600 text-white py-2 px-4 rounded hover:bg-yellow-700" type="submit">Yank</button>
+        </form>
+      `}
+      <form action="/admin/gems/${gem.name}/${versionSlug(gem)}/delete" method="POST" data-confirm="Permanently delete ${gem.name} ${versionSlug(gem)}?">
+        <button class="bg-red-600 text-white py-2 px-4 rounded hover:bg-red-700" type="submit">Delete</button>
+      </form>
     </div>
   ` : ''}
 </div>
-`, isLoggedIn);
+`, isLoggedIn, isAdmin);
 
-export const uploadPage = (currentUrl?: string) => layout(html`
+export const gemFilesPage = (gem: GemMetadata, contents: GemContents, isLoggedIn: boolean = false, isAdmin: boolean = false) => layout(html`
+<div class="bg-white p-6 rounded-lg shadow-md">
+  <h1 class="text-2xl font-bold mb-2">${gem.name} (${versionSlug(gem)})</h1>
+  <p class="text-gray-600 mb-6">${gem.summary || ''}</p>
+
+  ${gemTabs(gem, 'files')}
+
+  <p class="mb-4 text-gray-600">${contents.files.length} ${contents.files.length === 1 ? 'file' : 'files'}, ${formatSize(contents.files.reduce((total, file) => total + file.size, 0))}</p>
+
+  <table class="min-w-full bg-white">
+    <thead>
+      <tr>
+        <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Path</th>
+        <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-right text-xs font-semibold text-gray-600 uppercase tracking-wider">Size</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${contents.files.map(file => html`
+        <tr>
+          <td class="py-2 px-4 border-b border-gray-200 font-mono text-sm">
+            ${file.binary
+              ? html`${file.path} <span class="text-xs text-gray-500">(binary)</span>`
+              : html`<a href="/gems/${gem.name}/${versionSlug(gem)}/files/${file.path.split('/').map(encodeURIComponent).join('/')}" class="text-red-600 hover:underline">${file.path}</a>`}
+          </td>
+          <td class="py-2 px-4 border-b border-gray-200 text-right text-sm">${formatSize(file.size)}</td>
+        </tr>
+      `)}
+    </tbody>
+  </table>
+</div>
+`, isLoggedIn, isAdmin);
+
+export const gemFilePage = (gem: GemMetadata, view: GemFileView, isLoggedIn: boolean = false, isAdmin: boolean = false) => layout(html`
+<div class="bg-white p-6 rounded-lg shadow-md">
+  <h1 class="text-2xl font-bold mb-2">${gem.name} (${versionSlug(gem)})</h1>
+  <p class="text-gray-600 mb-6">${gem.summary || ''}</p>
+
+  ${gemTabs(gem, 'files')}
+
+  <div class="flex justify-between items-center mb-4">
+    <span class="font-mono text-sm break-all">${view.file.path}</span>
+    <span class="text-sm text-gray-600 ml-4">${formatSize(view.file.size)}</span>
+  </div>
+
+  ${view.content !== null ? html`
+    <pre class="bg-gray-100 p-3 rounded overflow-x-auto text-sm">${view.content}</pre>
+  ` : html`
+    <div class="p-3 bg-gray-100 border border-gray-300 text-gray-700 rounded">
+      ${view.file.binary ? 'This is a binary file and can\'t be shown.' : 'This file is too large to show.'}
+    </div>
+  `}
+
+  <p class="mt-4"><a href="/gems/${gem.name}/${versionSlug(gem)}/files" class="text-red-600 hover:underline">&larr; All files</a></p>
+</div>
+`, isLoggedIn, isAdmin);
+
+const FILE_STATUS_CLASSES: Record<FileChange['status'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  modified: 'bg-yellow-100 text-yellow-800'
+};
+
+const patchLineClass = (line: string) => {
+  if (line.startsWith('@@')) return 'bg-blue-50 text-blue-800';
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-gray-500';
+  if (line.startsWith('+')) return 'bg-green-50 text-green-800';
+  if (line.startsWith('-')) return 'bg-red-50 text-red-800';
+  return '';
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '(none)';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+const fileChange = (change: FileChange) => html`
+  <div class="mt-6 border border-gray-200 rounded" id="${change.path}">
+    <div class="flex justify-between items-center bg-gray-50 px-4 py-2 border-b border-gray-200">
+      <span class="font-mono text-sm break-all">${change.path}</span>
+      <span class="text-sm whitespace-nowrap ml-4">
+        <span class="text-green-700">+${change.additions}</span>
+        <span class="text-red-700">-${change.deletions}</span>
+      </span>
+    </div>
+    ${change.patch ? html`
+      <pre class="text-sm overflow-x-auto">${change.patch.replace(/\n$/, '').split('\n').map(line => html`<div class="px-4 ${patchLineClass(line)}">${line || ' '}</div>`)}</pre>
+    ` : html`
+      <p class="px-4 py-3 text-gray-600">${change.binary ? 'Binary file' : 'Diff too large to show'}${change.from_size !== undefined && change.to_size !== undefined ? ` (${formatSize(change.from_size)} → ${formatSize(change.to_size)})` : ''}</p>
+    `}
+  </div>
+`;
+
+export const gemComparePage = (comparison: GemComparison, isLoggedIn: boolean = false, isAdmin: boolean = false) => layout(html`
+<div class="bg-white p-6 rounded-lg shadow-md">
+  <h1 class="text-2xl font-bold mb-2">
+    <a href="/gems/${comparison.name}" class="hover:underline">${comparison.name}</a>:
+    <a href="/gems/${comparison.name}/${comparison.from}" class="text-red-600 hover:underline">${comparison.from}</a>
+    &rarr;
+    <a href="/gems/${comparison.name}/${comparison.to}" class="text-red-600 hover:underline">${comparison.to}</a>
+  </h1>
+  <p class="text-gray-600 mb-6">
+    ${comparison.files.length} changed ${comparison.files.length === 1 ? 'file' : 'files'}, ${comparison.unchanged_files} unchanged,
+    <span class="text-green-700">${comparison.files.reduce((total, file) => total + file.additions, 0)} additions</span>,
+    <span class="text-red-700">${comparison.files.reduce((total, file) => total + file.deletions, 0)} deletions</span>
+  </p>
+
+  ${comparison.metadata.length > 0 ? html`
+    <h2 class="text-lg font-semibold mb-2">Gemspec Changes</h2>
+    <table class="min-w-full bg-white mb-6">
+      <thead>
+        <tr>
+          <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Field</th>
+          <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">${comparison.from}</th>
+          <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">${comparison.to}</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${comparison.metadata.map(change => html`
+          <tr>
+            <td class="py-2 px-4 border-b border-gray-200 font-mono text-sm">${change.field}</td>
+            <td class="py-2 px-4 border-b border-gray-200 text-red-800">${formatValue(change.from)}</td>
+            <td class="py-2 px-4 border-b border-gray-200 text-green-800">${formatValue(change.to)}</td>
+          </tr>
+        `)}
+      </tbody>
+    </table>
+  ` : ''}
+
+  ${comparison.dependencies.length > 0 ? html`
+    <h2 class="text-lg font-semibold mb-2">Dependency Changes</h2>
+    <ul class="mb-6 space-y-1">
+      ${comparison.dependencies.map(dep => html`
+        <li>
+          <span class="text-xs px-2 py-1 rounded ${dep.status === 'added' ? FILE_STATUS_CLASSES.added : dep.status === 'removed' ? FILE_STATUS_CLASSES.removed : FILE_STATUS_CLASSES.modified}">${dep.status}</span>
+          <a href="/gems/${dep.name}" class="text-red-600 hover:underline">${dep.name}</a>
+          <span class="text-gray-500 text-sm">(${dep.type})</span>
+          <span class="font-mono text-sm">${dep.status === 'changed' ? `${dep.from} → ${dep.to}` : dep.from || dep.to}</span>
+        </li>
+      `)}
+    </ul>
+  ` : ''}
+
+  <h2 class="text-lg font-semibold mb-2">Files</h2>
+  ${comparison.files.length > 0 ? html`
+    <ul class="space-y-1">
+      ${comparison.files.map(change => html`
+        <li>
+          <span class="text-xs px-2 py-1 rounded ${FILE_STATUS_CLASSES[change.status]}">${change.status}</span>
+          <a href="#${change.path}" class="font-mono text-sm text-red-600 hover:underline">${change.path}</a>
+        </li>
+      `)}
+    </ul>
+    ${comparison.files.map(fileChange)}
+  ` : html`<p class="text-gray-600">The packaged files are identical.</p>`}
+</div>
+`, isLoggedIn, isAdmin);
+
+export const uploadPage = (currentUrl?: string, isAdmin: boolean = false) => layout(html`
 <div class="bg-white p-6 rounded-lg shadow-md">
   <h1 class="text-2xl font-bold mb-6">Upload Gem</h1>
 
@@ -162,7 +563,227 @@ export const uploadPage = (currentUrl?: string) => layout(html`
     <pre class="bg-gray-100 p-3 rounded mt-2">gem push your-gem-0.1.0.gem --host ${currentUrl || 'https://your-gemflare-url.workers.dev'}</pre>
   </div>
 </div>
-`, true);
+`, true, isAdmin);
+
+export const apiKeysPage = (apiKeys: ApiKey[], currentUrl?: string, isAdmin: boolean = false, options: { newKey?: string; error?: string } = {}) => layout(html`
+<div class="bg-white p-6 rounded-lg shadow-md">
+  <h1 class="text-2xl font-bold mb-6">API Keys</h1>
+
+  ${options.newKey ? html`
+    <div class="mb-6 p-3 bg-green-100 border border-green-400 text-green-800 rounded">
+      <p class="mb-2">Your new API key. Copy it now, it will not be shown again:</p>
+      <pre class="bg-white p-3 rounded font-mono text-sm">${options.newKey}</pre>
+    </div>
+  ` : ''}
+
+  ${options.error ? html`
+    <div class="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+      ${options.error}
+    </div>
+  ` : ''}
+
+  <form action="/api-keys" method="POST" class="mb-8">
+    <div class="mb-4">
+      <label class="block text-gray-700 mb-2" for="name">Name</label>
+      <input class="w-full px-3 py-2 border border-gray-300 rounded" type="text" id="name" name="name" placeholder="ci-deploy" required>
+    </div>
+
+    <div class="mb-4">
+      <span class="block text-gray-700 mb-2">Scopes</span>
+      <label class="mr-4"><input type="checkbox" name="scopes" value="push" checked> Push</label>
+      <label class="mr-4"><input type="checkbox" name="scopes" value="yank"> Yank</label>
+      <label class="mr-4"><input type="checkbox" name="scopes" value="read"> Read</label>
+    </div>
+
+    <div class="mb-4">
+      <label class="block text-gray-700 mb-2" for="expires_in_days">Expires after (days, empty for never)</label>
+      <input class="w-40 px-3 py-2 border border-gray-300 rounded" type="number" min="1" id="expires_in_days" name="expires_in_days">
+    </div>
+
+    <button class="bg-red-600 text-white py-2 px-4 rounded hover:bg-red-700" type="submit">Create API Key</button>
+  </form>
+
+  ${apiKeysTable(apiKeys.filter(apiKey => !isReadToken(apiKey)))}
+
+  <div>
+    <h2 class="text-lg font-semibold mb-2">Using an API key</h2>
+    <p class="mb-2">Push gems from CI by exporting the key:</p>
+    <pre class="bg-gray-100 p-3 rounded mt-2">GEM_HOST_API_KEY=your-api-key gem push your-gem-0.1.0.gem --host ${currentUrl || 'https://your-gemflare-url.workers.dev'}</pre>
+    <p class="mt-4 mb-2">Or sign in once with your username and password:</p>
+    <pre class="bg-gray-100 p-3 rounded mt-2">gem signin --host ${currentUrl || 'https://your-gemflare-url.workers.dev'}</pre>
+  </div>
+</div>
+
+<div class="bg-white p-6 rounded-lg shadow-md mt-6">
+  <h1 class="text-2xl font-bold mb-2">Read Tokens</h1>
+  <p class="text-gray-600 mb-6">Read-only tokens for deploy machines and Bundler. They can install gems but never push or yank.</p>
+
+  <form action="/api-keys" method="POST" class="mb-8">
+    <input type="hidden" name="scopes" value="read">
+    <div class="mb-4">
+      <label class="block text-gray-700 mb-2" for="read_token_name">Name</label>
+      <input class="w-full px-3 py-2 border border-gray-300 rounded" type="text" id="read_token_name" name="name" placeholder="production-deploy" required>
+    </div>
+
+    <div class="mb-4">
+      <label class="block text-gray-700 mb-2" for="read_token_expires_in_days">Expires after (days, empty for never)</label>
+      <input class="w-40 px-3 py-2 border border-gray-300 rounded" type="number" min="1" id="read_token_expires_in_days" name="expires_in_days">
+    </div>
+
+    <button class="bg-red-600 text-white py-2 px-4 rounded hover:bg-red-700" type="submit">Create Read Token</button>
+  </form>
+
+  ${apiKeysTable(apiKeys.filter(isReadToken))}
+
+  <div>
+    <h2 class="text-lg font-semibold mb-2">Using a read token</h2>
+    <p class="mb-2">Configure Bundler on the deploy machine:</p>
+    <pre class="bg-gray-100 p-3 rounded mt-2">bundle config set ${currentUrl || 'https://your-gemflare-url.workers.dev'} deploy:your-read-token</pre>
+  </div>
+</div>
+`, true, isAdmin);
+
+const isReadToken = (apiKey: ApiKey) => apiKey.scopes.length === 1 && apiKey.scopes[0] === 'read';
+
+const apiKeysTable = (apiKeys: ApiKey[]) => html`
+  <table class="min-w-full bg-white mb-6">
+    <thead>
+      <tr>
+        <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Name</th>
+        <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Scopes</th>
+        <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Created</th>
+        <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Expires</th>
+        <th class="py-2 px-4 border-b border-gray-200 bg-gray-50"></th>
+      </tr>
+    </thead>
+    <tbody>
+      ${apiKeys.map(apiKey => html`
+        <tr>
+          <td class="py-2 px-4 border-b border-gray-200">${apiKey.name}</td>
+          <td class="py-2 px-4 border-b border-gray-200">${apiKey.scopes.join(', ')}</td>
+          <td class="py-2 px-4 border-b border-gray-200">${new Date(apiKey.created_at).toLocaleDateString()}</td>
+          <td class="py-2 px-4 border-b border-gray-200">${apiKey.expires_at ? new Date(apiKey.expires_at).toLocaleDateString() : 'Never'}</td>
+          <td class="py-2 px-4 border-b border-gray-200 text-right">
+            <form action="/api-keys/${apiKey.id}/revoke" method="POST">
+              <button class="text-red-600 hover:underline" type="submit">Revoke</button>
+            </form>
+          </td>
+        </tr>
+      `)}
+    </tbody>
+  </table>
+`;
+
+export const usersPage = (users: User[], bootstrapAdmin?: string, options: { inviteUrl?: string; error?: string } = {}) => layout(html`
+<div class="bg-white p-6 rounded-lg shadow-md">
+  <h1 class="text-2xl font-bold mb-6">Users</h1>
+
+  ${options.inviteUrl ? html`
+    <div class="mb-6 p-3 bg-green-100 border border-green-400 text-green-800 rounded">
+      <p class="mb-2">Send this invite link to the new user. It is valid for 7 days:</p>
+      <pre class="bg-white p-3 rounded font-mono text-sm">${options.inviteUrl}</pre>
+    </div>
+  ` : ''}
+
+  ${options.error ? html`
+    <div class="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+      ${options.error}
+    </div>
+  ` : ''}
+
+  <div class="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+    <form action="/admin/users/invite" method="POST" class="bg-gray-50 p-4 rounded">
+      <h2 class="text-lg font-semibold mb-2">Invite User</h2>
+      <div class="mb-4">
+        <label class="block text-gray-700 mb-2" for="invite_username">Username</label>
+        <input class="w-full px-3 py-2 border border-gray-300 rounded" type="text" id="invite_username" name="username" required>
+      </div>
+      <label class="block mb-4"><input type="checkbox" name="is_admin"> Administrator</label>
+      <button class="bg-red-600 text-white py-2 px-4 rounded hover:bg-red-700" type="submit">Create Invite Link</button>
+    </form>
+
+    <form action="/admin/users" method="POST" class="bg-gray-50 p-4 rounded">
+      <h2 class="text-lg font-semibold mb-2">Create User</h2>
+      <div class="mb-4">
+        <label class="block text-gray-700 mb-2" for="create_username">Username</label>
+        <input class="w-full px-3 py-2 border border-gray-300 rounded" type="text" id="create_username" name="username" required>
+      </div>
+      <div class="mb-4">
+        <label class="block text-gray-700 mb-2" for="create_password">Password</label>
+        <input class="w-full px-3 py-2 border border-gray-300 rounded" type="password" id="create_password" name="password" required>
+      </div>
+      <label class="block mb-4"><input type="checkbox" name="is_admin"> Administrator</label>
+      <button class="bg-red-600 text-white py-2 px-4 rounded hover:bg-red-700" type="submit">Create User</button>
+    </form>
+  </div>
+
+  <table class="min-w-full bg-white">
+    <thead>
+      <tr>
+        <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Username</th>
+        <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Role</th>
+        <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Status</th>
+        <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Actions</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${bootstrapAdmin ? html`
+        <tr>
+          <td class="py-2 px-4 border-b border-gray-200">${bootstrapAdmin}</td>
+          <td class="py-2 px-4 border-b border-gray-200">Administrator</td>
+          <td class="py-2 px-4 border-b border-gray-200">Bootstrap account (environment)</td>
+          <td class="py-2 px-4 border-b border-gray-200"></td>
+        </tr>
+      ` : ''}
+      ${users.map(user => html`
+        <tr>
+          <td class="py-2 px-4 border-b border-gray-200">${user.username}</td>
+          <td class="py-2 px-4 border-b border-gray-200">${user.isAdmin ? 'Administrator' : 'User'}</td>
+          <td class="py-2 px-4 border-b border-gray-200">${user.disabled ? 'Disabled' : 'Active'}</td>
+          <td class="py-2 px-4 border-b border-gray-200">
+            <div class="flex items-center">
+              <form action="/admin/users/${user.username}/disable" method="POST" class="mr-4">
+                <button class="text-red-600 hover:underline" type="submit">${user.disabled ? 'Enable' : 'Disable'}</button>
+              </form>
+              <form action="/admin/users/${user.username}/password" method="POST" class="flex">
+                <input class="px-2 py-1 border border-gray-300 rounded mr-2" type="password" name="password" placeholder="New password" required>
+                <button class="text-red-600 hover:underline" type="submit">Reset Password</button>
+              </form>
+            </div>
+          </td>
+        </tr>
+      `)}
+    </tbody>
+  </table>
+</div>
+`, true, true);
+
+export const invitePage = (invite: Invite, errorMessage?: string) => layout(html`
+<div class="max-w-md mx-auto bg-white p-8 rounded-lg shadow-md mt-10">
+  <h1 class="text-2xl font-bold mb-2 text-center">Welcome to GemFlare</h1>
+  <p class="text-gray-600 mb-6 text-center">Choose a password for <strong>${invite.username}</strong>.</p>
+
+  ${errorMessage ? html`
+    <div class="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+      ${errorMessage}
+    </div>
+  ` : ''}
+
+  <form action="/invite/${invite.token}" method="POST">
+    <div class="mb-4">
+      <label class="block text-gray-700 mb-2" for="password">Password</label>
+      <input class="w-full px-3 py-2 border border-gray-300 rounded" type="password" id="password" name="password" required>
+    </div>
+
+    <div class="mb-6">
+      <label class="block text-gray-700 mb-2" for="password_confirmation">Confirm Password</label>
+      <input class="w-full px-3 py-2 border border-gray-300 rounded" type="password" id="password_confirmation" name="password_confirmation" required>
+    </div>
+
+    <button class="w-full bg-red-600 text-white py-2 px-4 rounded hover:bg-red-700" type="submit">Create Account</button>
+  </form>
+</div>
+`, false);
 
 export const errorPage = (message: string, isLoggedIn: boolean = false) => layout(html`
 <div class="bg-white p-6 rounded-lg shadow-md">
@@ -171,3 +792,64 @@ export const errorPage = (message: string, isLoggedIn: boolean = false) => layou
   <a href="/" class="inline-block mt-4 bg-red-600 text-white py-2 px-4 rounded hover:bg-red-700">Back to Home</a>
 </div>
 `, isLoggedIn);
+
+export const reservationsPage = (reservations: NameReservation[], options: { error?: string } = {}) => layout(html`
+<div class="bg-white p-6 rounded-lg shadow-md">
+  <h1 class="text-2xl font-bold mb-2">Name Reservations</h1>
+  <p class="text-gray-600 mb-6">Only the listed users may push gems whose names match a reserved pattern, and matching names are never looked up on the upstream server. Use <code>*</code> as a wildcard, e.g. <code>acme-*</code>.</p>
+
+  ${options.error ? html`
+    <div class="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+      ${options.error}
+    </div>
+  ` : ''}
+
+  <form action="/admin/reservations" method="POST" class="bg-gray-50 p-4 rounded mb-8">
+    <div class="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+      <div>
+        <label class="block text-gray-700 mb-2" for="pattern">Pattern</label>
+        <input class="w-full px-3 py-2 border border-gray-300 rounded" type="text" id="pattern" name="pattern" placeholder="acme-*" required>
+      </div>
+      <div>
+        <label class="block text-gray-700 mb-2" for="owners">Users who may push</label>
+        <input class="w-full px-3 py-2 border border-gray-300 rounded" type="text" id="owners" name="owners" placeholder="alice, bob" required>
+      </div>
+      <div>
+        <label class="block text-gray-700 mb-2" for="note">Note</label>
+        <input class="w-full px-3 py-2 border border-gray-300 rounded" type="text" id="note" name="note" placeholder="Platform team gems">
+      </div>
+    </div>
+    <button class="bg-red-600 text-white py-2 px-4 rounded hover:bg-red-700" type="submit">Save Reservation</button>
+  </form>
+
+  ${reservations.length === 0 ? html`<p>No names are reserved.</p>` : html`
+    <table class="min-w-full bg-white">
+      <thead>
+        <tr>
+          <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Pattern</th>
+          <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">May Push</th>
+          <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Note</th>
+          <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Created</th>
+          <th class="py-2 px-4 border-b border-gray-200 bg-gray-50 text-left text-xs font-semibold text-gray-600 uppercase tracking-wider">Actions</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${reservations.map(reservation => html`
+          <tr>
+            <td class="py-2 px-4 border-b border-gray-200 font-mono">${reservation.pattern}</td>
+            <td class="py-2 px-4 border-b border-gray-200">${reservation.owners.join(', ')}</td>
+            <td class="py-2 px-4 border-b border-gray-200">${reservation.note || ''}</td>
+            <td class="py-2 px-4 border-b border-gray-200">${new Date(reservation.createdAt).toLocaleDateString()} by ${reservation.createdBy}</td>
+            <td class="py-2 px-4 border-b border-gray-200">
+              <form action="/admin/reservations/delete" method="POST" data-confirm="Remove the reservation for ${reservation.pattern}?">
+                <input type="hidden" name="pattern" value="${reservation.pattern}">
+                <button class="text-red-600 hover:underline" type="submit">Remove</button>
+              </form>
+            </td>
+          </tr>
+        `)}
+      </tbody>
+    </table>
+  `}
+</div>
+`, true, true);
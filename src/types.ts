@@ -3,27 +3,82 @@ export interface CloudflareBindings {
   GEMFLARE_BUCKET: R2Bucket;
   ADMIN_USERNAME?: string;
   ADMIN_PASSWORD_HASH?: string;
+  SESSION_SECRET?: string;
+  PRIVATE_READS?: string;
+  DOWNLOAD_COUNTER?: DurableObjectNamespace;
+  UPSTREAM_URL?: string;
 }
 
 export interface GemDependency {
   name: string;
-  requirements: string;
+  requirements: string; // e.g. "~> 2.1, >= 2.1.1"
+  type?: 'runtime' | 'development';
 }
 
 export interface GemMetadata {
   name: string;
   version: string;
   platform?: string;
-  authors?: string;
-  info?: string;
+  authors?: string[];
+  email?: string[];
+  summary?: string;
+  description?: string;
+  info?: string; // description or summary, kept for gems stored before descriptions were parsed
+  homepage?: string;
+  licenses?: string[];
+  metadata?: Record<string, string>; // e.g. source_code_uri, changelog_uri
   created_at?: string;
   dependencies?: GemDependency[];
+  required_ruby_version?: string;
+  required_rubygems_version?: string;
+  files?: string[];
+  executables?: string[];
   sha256?: string;
   size?: number;
+  downloads?: number;
+  yanked?: boolean;
+  yanked_at?: string;
 }
 
 export interface User {
   username: string;
   passwordHash: string;
   isAdmin: boolean;
+  disabled?: boolean;
+  createdAt?: string;
+}
+
+export interface Invite {
+  token: string;
+  username: string;
+  isAdmin: boolean;
+  invitedBy: string;
+  createdAt: string;
+}
+
+// A reserved gem name pattern such as "acme-*" that only its owners may push
+export interface NameReservation {
+  pattern: string;
+  owners: string[];
+  note?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type ApiKeyScope = 'push' | 'yank' | 'read';
+
+export interface ApiKey {
+  id: string; // SHA-256 hash of the key; the key itself is never stored
+  name: string;
+  username: string;
+  scopes: ApiKeyScope[];
+  created_at: string;
+  expires_at?: string;
+}
+
+// The authenticated principal stored on the request context
+export interface AuthUser {
+  username: string;
+  isAdmin: boolean;
+  apiKey?: ApiKey;
 }
@@ -0,0 +1,197 @@
+import { CloudflareBindings, GemMetadata } from './types';
+import {
+  MIRRORED_VERSIONS_PATH,
+  generateNamesContent,
+  generateVersionsContent,
+  getCompactIndexFromR2,
+  getGemVersions,
+  listReservations,
+  matchingReservations,
+  replaceCompactIndexFile,
+  updateCompactIndexFile
+} from './utils';
+
+// Pull-through mirror of an upstream gem server (e.g. https://rubygems.org), enabled by setting
+// UPSTREAM_URL. Names hosted in GemFlare always win: once a gem name exists locally (or is
+// reserved), nothing about it is read from upstream, so a public gem can't shadow a private one.
+
+const UPSTREAM_CACHE_TTL = 300; // seconds upstream index files are cached at the edge
+const UPSTREAM_GEM_PREFIX = 'upstream/gems/';
+const UPSTREAM_VERSIONS_STATE_KEY = 'upstream/versions.json';
+
+// How much of the upstream /versions file has been merged into the mirrored one
+interface UpstreamVersionsState {
+  header: string; // "created_at: ...\n---\n", which changes when upstream rebuilds the file
+  size: number;
+}
+
+export function upstreamUrl(env: CloudflareBindings): string | null {
+  return env.UPSTREAM_URL ? env.UPSTREAM_URL.replace(/\/+$/, '') : null;
+}
+
+// Whether a gem name must never be resolved upstream: it is hosted in GemFlare (counting
+// yanked versions) or falls under a name reservation
+export async function isLocalName(env: CloudflareBindings, name: string): Promise<boolean> {
+  if ((await getGemVersions(env.GEMFLARE_KV, env.GEMFLARE_BUCKET, name)).length > 0) {
+    return true;
+  }
+  return matchingReservations(await listReservations(env.GEMFLARE_KV), name).length > 0;
+}
+
+// The same check for many names at once, e.g. every line of the upstream /versions file
+async function localNameMatcher(env: CloudflareBindings): Promise<(name: string) => boolean> {
+  const [stored, reservations] = await Promise.all([
+    getCompactIndexFromR2(env.GEMFLARE_BUCKET, 'names'),
+    listReservations(env.GEMFLARE_KV)
+  ]);
+  const content = stored ? stored.content : await generateNamesContent(env.GEMFLARE_KV);
+  const names = new Set(content.split('\n').filter(name => name && name !== '---'));
+
+  return name => names.has(name) || matchingReservations(reservations, name).length > 0;
+}
+
+// An upstream file, or null when upstream doesn't have it. Upstream being down or failing is
+// treated the same way, so local gems still resolve while it is unavailable.
+async function fetchUpstreamText(env: CloudflareBindings, path: string): Promise<string | null> {
+  const base = upstreamUrl(env);
+  if (!base) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(`${base}${path}`, { cf: { cacheTtl: UPSTREAM_CACHE_TTL } });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`returned ${response.status}`);
+    }
+
+    return await response.text();
+  } catch (error) {
+    console.error(`Error fetching upstream ${path}:`, error);
+    return null;
+  }
+}
+
+// The upstream /info/<name> file, or null when upstream doesn't have the gem
+export function fetchUpstreamInfo(env: CloudflareBindings, name: string): Promise<string | null> {
+  return fetchUpstreamText(env, `/info/${encodeURIComponent(name)}`);
+}
+
+// Lines of an upstream /versions file, without the ones for local names
+function upstreamVersionsLines(content: string, isLocal: (name: string) => boolean): string {
+  return content.split('\n')
+    .filter(line => line && !isLocal(line.slice(0, line.indexOf(' '))))
+    .map(line => `${line}\n`)
+    .join('');
+}
+
+// Combine the upstream and local /versions files. Upstream lines for local names are dropped and
+// the local lines follow the upstream ones, so every local name resolves to the local /info file.
+function mergeVersionsContent(upstream: string, local: string, isLocal: (name: string) => boolean): string {
+  const upstreamBody = upstream.indexOf('---\n') + 4;
+  const localBody = local.indexOf('---\n') + 4;
+
+  return upstream.slice(0, upstreamBody) + upstreamVersionsLines(upstream.slice(upstreamBody), isLocal) + local.slice(localBody);
+}
+
+// Bring the mirrored /versions file up to date with upstream, from the Cron Trigger. Serving it
+// from R2 keeps the 20 MB upstream file from being downloaded and merged on every request.
+// Upstream's file is append-only until upstream rebuilds it, so only the lines it gained since the
+// last refresh are appended, and the mirrored file stays append-only for Bundler as well; pushes
+// append their lines to it like to the local file. Returns false when upstream couldn't be read.
+export async function refreshUpstreamVersions(env: CloudflareBindings): Promise<boolean> {
+  const upstream = await fetchUpstreamText(env, '/versions');
+  if (upstream === null) {
+    return false;
+  }
+
+  const isLocal = await localNameMatcher(env);
+  const header = upstream.slice(0, upstream.indexOf('---\n') + 4);
+  const stateObject = await env.GEMFLARE_BUCKET.get(UPSTREAM_VERSIONS_STATE_KEY);
+  const state = stateObject ? await stateObject.json<UpstreamVersionsState>() : null;
+
+  let appended = false;
+  if (state && state.header === header && state.size <= upstream.length) {
+    const lines = upstreamVersionsLines(upstream.slice(state.size), isLocal);
+    appended = await updateCompactIndexFile(env.GEMFLARE_BUCKET, MIRRORED_VERSIONS_PATH, content => lines ? content + lines : null);
+  }
+
+  if (!appended) {
+    console.log('Rebuilding the mirrored versions file');
+    const rebuilt = await replaceCompactIndexFile(env.GEMFLARE_BUCKET, MIRRORED_VERSIONS_PATH, async () => {
+      const local = await getCompactIndexFromR2(env.GEMFLARE_BUCKET, 'versions');
+      return mergeVersionsContent(upstream, local ? local.content : await generateVersionsContent(env.GEMFLARE_KV), isLocal);
+    });
+    if (!rebuilt) {
+      throw new Error('Could not rebuild the mirrored versions file');
+    }
+  }
+
+  // Recorded only once the mirrored file holds everything up to this point, so the next refresh
+  // never skips upstream lines
+  await env.GEMFLARE_BUCKET.put(UPSTREAM_VERSIONS_STATE_KEY, JSON.stringify({ header, size: upstream.length }));
+  return true;
+}
+
+// Turn an /info/<name> file back into gem records, e.g. for the dependency API.
+// Lines look like "1.0.0-x86_64-linux dep:>= 1&< 2,other:~> 0.1|checksum:...,ruby:>= 2.7"
+export function parseInfoContent(name: string, content: string): GemMetadata[] {
+  return content.split('\n')
+    .filter(line => line && line !== '---')
+    .map(line => {
+      const space = line.indexOf(' ');
+      const versionPart = space === -1 ? line : line.slice(0, space);
+      const dependencies = space === -1 ? '' : line.slice(space + 1).split('|')[0];
+      const dash = versionPart.indexOf('-');
+
+      return {
+        name,
+        version: dash === -1 ? versionPart : versionPart.slice(0, dash),
+        platform: dash === -1 ? 'ruby' : versionPart.slice(dash + 1),
+        dependencies: dependencies ? dependencies.split(',').map(dependency => {
+          const colon = dependency.indexOf(':');
+          return {
+            name: dependency.slice(0, colon),
+            requirements: dependency.slice(colon + 1).split('&').join(', '),
+            type: 'runtime' as const
+          };
+        }) : []
+      };
+    });
+}
+
+// A .gem file from upstream, cached in R2 under upstream/gems/ after the first download
+export async function fetchUpstreamGem(env: CloudflareBindings, file: string): Promise<ReadableStream | ArrayBuffer | null> {
+  const base = upstreamUrl(env);
+  if (!base) {
+    return null;
+  }
+
+  const cached = await env.GEMFLARE_BUCKET.get(`${UPSTREAM_GEM_PREFIX}${file}`);
+  if (cached) {
+    return cached.body;
+  }
+
+  let data: ArrayBuffer;
+  try {
+    const response = await fetch(`${base}/gems/${encodeURIComponent(file)}`);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`returned ${response.status}`);
+    }
+
+    data = await response.arrayBuffer();
+  } catch (error) {
+    console.error(`Error fetching upstream /gems/${file}:`, error);
+    return null;
+  }
+
+  console.log(`Caching upstream gem ${file} in R2`);
+  await env.GEMFLARE_BUCKET.put(`${UPSTREAM_GEM_PREFIX}${file}`, data);
+
+  return data;
+}
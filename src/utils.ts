@@ -1,10 +1,12 @@
 import { dump, load } from '@hyrious/marshal';
-import { GemMetadata, GemDependency } from './types';
+import { AuthUser, GemMetadata, GemDependency, NameReservation } from './types';
 import * as yaml from 'js-yaml';
 import * as crypto from 'crypto';
 import * as zlib from 'zlib';
 import * as stream from 'stream';
 import * as tar from 'tar-stream';
+import { compareVersions, formatRequirement, isPrerelease, isValidVersion, latestVersion } from './version';
+import { Gemspec, gemFileBaseName, gemVersionSlug, loadGemspec, parseGemFileBaseNames, parseGemVersionSlug, marshalGemspec, marshalVersion, requirementToString } from './gemspec';
 
 // Authentication utilities
 export async function hashPassword(password: string): Promise<string> {
@@ -18,275 +20,249 @@ export async function hashPassword(password: string): Promise<string> {
 
 export async function verifyPassword(password: string, hash: string): Promise<boolean> {
   const calculatedHash = await hashPassword(password);
-  return calculatedHash === hash;
+  return timingSafeEqual(calculatedHash, hash);
 }
 
-// Gem utilities
-export function parseGemSpec(gemspecContent: string): Partial<GemMetadata> {
-  // This is a simplified parser for demonstration
-  // In a real implementation, you'd need a more robust parser
-  const metadata: Partial<GemMetadata> = {
-    authors: [],
-    requirements: [],
-  };
+// Compare two strings without stopping at the first difference, so the response time doesn't
+// tell how much of a hash matched
+export function timingSafeEqual(a: string, b: string): boolean {
+  const left = new TextEncoder().encode(a);
+  const right = new TextEncoder().encode(b);
+  if (left.length !== right.length) {
+    return false;
+  }
 
-  const nameMatch = gemspecContent.match(/\.name\s*=\s*['"](.+)['"]/);
-  if (nameMatch) metadata.name = nameMatch[1];
+  let difference = 0;
+  for (let i = 0; i < left.length; i++) {
+    difference |= left[i] ^ right[i];
+  }
+  return difference === 0;
+}
 
-  const versionMatch = gemspecContent.match(/\.version\s*=\s*['"](.+)['"]/);
-  if (versionMatch) metadata.version = versionMatch[1];
+// KV utilities
 
-  const summaryMatch = gemspecContent.match(/\.summary\s*=\s*['"](.+)['"]/);
-  if (summaryMatch) metadata.summary = summaryMatch[1];
+// List every key name under a prefix, following the cursor past KV's 1000-key pages
+export async function listKeys(kv: KVNamespace, prefix: string): Promise<string[]> {
+  const names: string[] = [];
+  let cursor: string | undefined;
 
-  const descriptionMatch = gemspecContent.match(/\.description\s*=\s*['"](.+)['"]/);
-  if (descriptionMatch) metadata.info = descriptionMatch[1];
+  do {
+    const page = await kv.list({ prefix, cursor });
+    names.push(...page.keys.map(key => key.name));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
 
-  return metadata;
+  return names;
 }
 
-/**
- * Parse metadata YAML content
- */
-function parseMetadataYaml(yamlText: string): Partial<GemMetadata> {
-  console.log('Parsing metadata YAML');
-
-  const metadata: Partial<GemMetadata> = {
-    name: "unknown",
-    version: "0.0.0",
-    platform: "ruby",
-    authors: ["Unknown"],
-    info: "",
-    summary: "",
-    requirements: []
-  };
+export async function getAllGems(kv: KVNamespace): Promise<GemMetadata[]> {
+  console.log('Getting all gems from KV');
+  const keys = await listKeys(kv, 'gem:');
+  console.log(`Found ${keys.length} gem keys in KV`);
 
-  try {
-    // Extract name
-    const nameMatch = yamlText.match(/^name: (.+)$/m);
-    if (nameMatch) {
-      metadata.name = nameMatch[1].trim();
-      console.log('Extracted name from metadata:', metadata.name);
-    }
-
-    // Extract version - handle Ruby object format
-    const versionMatch = yamlText.match(/version:.*?version: ([0-9.]+)/s);
-    if (versionMatch) {
-      metadata.version = versionMatch[1].trim();
-      console.log('Extracted version from metadata:', metadata.version);
-    } else {
-      // Try simple version format
-      const simpleVersionMatch = yamlText.match(/^version: (.+)$/m);
-      if (simpleVersionMatch) {
-        metadata.version = simpleVersionMatch[1].trim();
-        // Clean up Ruby object notation if present
-        if (metadata.version.includes('!ruby/object')) {
-          const versionNumberMatch = metadata.version.match(/([0-9.]+)/);
-          if (versionNumberMatch) {
-            metadata.version = versionNumberMatch[1];
-          }
-        }
-        console.log('Extracted version from metadata:', metadata.version);
-      }
-    }
+  const gems: GemMetadata[] = [];
 
-    // Extract platform
-    const platformMatch = yamlText.match(/^platform: (.+)$/m);
-    if (platformMatch) {
-      metadata.platform = platformMatch[1].trim();
+  for (const key of keys) {
+    const gemData = await kv.get(key, 'json') as GemMetadata;
+    if (gemData) {
+      gems.push(gemData);
+    } else {
+      console.log('No gem data found for key:', key);
     }
+  }
 
-    // Extract authors
-    const authorsSection = yamlText.match(/^authors:$([\s\S]*?)^[a-z]+:/m);
-    if (authorsSection) {
-      const authorLines = authorsSection[1].match(/- (.+)$/gm);
-      if (authorLines) {
-        metadata.authors = authorLines.map(line => line.replace(/^- /, '').trim());
-        console.log('Extracted authors from metadata:', metadata.authors);
-      }
+  // Sort gems by name and version
+  gems.sort((a, b) => {
+    if (a.name === b.name) {
+      // Sort versions in descending order (newest first)
+      return compareVersions(b.version, a.version);
     }
+    return a.name.localeCompare(b.name);
+  });
 
-    // Extract summary
-    const summaryMatch = yamlText.match(/^summary: (.+)$/m);
-    if (summaryMatch) {
-      metadata.summary = summaryMatch[1].trim();
-      console.log('Extracted summary from metadata:', metadata.summary);
-    }
+  return gems;
+}
 
-    // Extract description/info
-    const descriptionMatch = yamlText.match(/^description: (.+)$/m);
-    if (descriptionMatch) {
-      metadata.info = descriptionMatch[1].trim();
-    } else {
-      // Try multiline description
-      const descriptionSection = yamlText.match(/^description: \|-$([\s\S]*?)^[a-z]+:/m);
-      if (descriptionSection) {
-        metadata.info = descriptionSection[1].trim();
-      }
-    }
+export async function getGem(kv: KVNamespace, r2: R2Bucket, name: string): Promise<GemMetadata | null> {
+  // This gets the latest installable version of a gem, or the newest yanked one when every
+  // version is yanked
+  const versions = await getGemVersions(kv, r2, name);
+  if (versions.length === 0) return null;
 
-    // Extract requirements - parse dependencies section
-    try {
-      const dependenciesSection = yamlText.match(/^dependencies:$([\s\S]*?)^[a-z]+:/m);
-      if (dependenciesSection) {
-        // Find all dependency blocks
-        const depBlocks = dependenciesSection[1].split('!ruby/object:Gem::Dependency');
+  const available = versions.filter(gem => !gem.yanked);
+  const candidates = available.length > 0 ? available : versions;
+  const latest = latestVersion(candidates.map(gem => gem.version));
 
-        // Skip the first empty element
-        const dependencies = [];
+  // The pure-Ruby build of that version goes ahead of its platform builds
+  return candidates
+    .filter(gem => gem.version === latest)
+    .sort((a, b) => Number(!samePlatform(a, 'ruby')) - Number(!samePlatform(b, 'ruby')))[0];
+}
 
-        for (let i = 1; i < depBlocks.length; i++) {
-          const block = depBlocks[i];
+// KV key of a gem version record: gem:<name>:<version> for pure-Ruby gems and
+// gem:<name>:<version>-<platform> for platform gems, so every build of a version has its own record
+function gemRecordKey(name: string, version: string, platform?: string): string {
+  return `gem:${name}:${gemVersionSlug(version, platform)}`;
+}
 
-          // Extract dependency name
-          const nameMatch = block.match(/name: ([^\n]+)/);
-          const name = nameMatch ? nameMatch[1].trim() : 'unknown';
+const samePlatform = (gem: GemMetadata, platform: string) => (gem.platform || 'ruby') === platform;
 
-          // Extract requirement operator and version
-          const reqMatch = block.match(/requirement:.*?- ["']([<>=~]+)["']/s);
-          const operator = reqMatch ? reqMatch[1] : '=';
+export async function getGemVersion(kv: KVNamespace, name: string, version: string, platform: string = 'ruby'): Promise<GemMetadata | null> {
+  const gemData = await kv.get(gemRecordKey(name, version, platform), 'json') as GemMetadata | null;
+  if (gemData) {
+    return samePlatform(gemData, platform) ? gemData : null;
+  }
 
-          const versionMatch = block.match(/version: ([0-9.]+)/);
-          const version = versionMatch ? versionMatch[1] : '0.0.0';
+  // Older versions of GemFlare stored platform gems under gem:<name>:<version>
+  if (platform !== 'ruby') {
+    const legacy = await kv.get(gemRecordKey(name, version), 'json') as GemMetadata | null;
+    return legacy && samePlatform(legacy, platform) ? legacy : null;
+  }
 
-          dependencies.push(`${name} (${operator} ${version})`);
-        }
+  return null;
+}
 
-        metadata.requirements = dependencies;
-        console.log('Extracted dependencies from metadata:', dependencies);
-      }
-    } catch (error) {
-      console.error('Error parsing dependencies:', error);
+// Find a gem version by its slug from a URL, e.g. "1.16.0" or "1.16.0-x86_64-linux"
+export async function findGemVersion(kv: KVNamespace, name: string, slug: string): Promise<GemMetadata | null> {
+  for (const { version, platform } of parseGemVersionSlug(slug)) {
+    const gemData = await getGemVersion(kv, name, version, platform);
+    if (gemData) {
+      return gemData;
     }
+  }
 
-    return metadata;
-  } catch (error) {
-    console.error('Error parsing metadata YAML:', error);
-    return metadata;
+  return null;
+}
+
+// Find the gem version a file name such as "acme-3-client-1.0.0-x86_64-linux" belongs to
+export async function findGemByFileName(kv: KVNamespace, baseName: string): Promise<GemMetadata | null> {
+  for (const { name, version, platform } of parseGemFileBaseNames(baseName)) {
+    const gemData = await getGemVersion(kv, name, version, platform);
+    if (gemData) {
+      return gemData;
+    }
   }
+
+  return null;
 }
 
-/**
- * Extract gem metadata from a gemspec file content
- */
-function parseGemspec(content: Uint8Array): Partial<GemMetadata> {
-  const text = new TextDecoder().decode(content);
-  const metadata: Partial<GemMetadata> = {
-    name: "unknown",
-    version: "0.0.0",
-    platform: "ruby",
-    authors: ["Unknown"],
-    info: "",
-    summary: "",
-    requirements: []
-  };
+// The per-gem version index lists the version slugs stored under gem:<name>: so reading one gem
+// doesn't need a prefix list. It is kept in R2 at versions/<name>.json so that concurrent pushes
+// of the same gem can update it with conditional writes.
+const VERSION_INDEX_PREFIX = 'versions/';
+const VERSION_INDEX_WRITE_ATTEMPTS = 10; // CI matrices push many platform builds of a version at once
 
-  // Extract name
-  const nameMatch = text.match(/\.name\s*=\s*['"]([^'"]+)['"]/);
-  if (nameMatch) {
-    metadata.name = nameMatch[1];
-  }
+const versionIndexKey = (name: string) => `${VERSION_INDEX_PREFIX}${name}.json`;
 
-  // Extract version
-  const versionMatch = text.match(/\.version\s*=\s*['"]([^'"]+)['"]/);
-  if (versionMatch) {
-    metadata.version = versionMatch[1];
-  }
+// The slugs of a gem's KV records, for gems whose index hasn't been built yet
+async function listVersionSlugs(kv: KVNamespace, name: string): Promise<string[]> {
+  const prefix = `gem:${name}:`;
+  return (await listKeys(kv, prefix)).map(key => key.slice(prefix.length));
+}
 
-  // Extract summary
-  const summaryMatch = text.match(/\.summary\s*=\s*['"]([^'"]+)['"]/);
-  if (summaryMatch) {
-    metadata.summary = summaryMatch[1];
-  }
+// Write a gem's version index only if it still has the given ETag, or doesn't exist yet when
+// etag is null. Returns null when another request wrote it first.
+function writeVersionIndex(r2: R2Bucket, name: string, slugs: string[], etag: string | null): Promise<R2Object | null> {
+  return r2.put(versionIndexKey(name), JSON.stringify(slugs), {
+    httpMetadata: { contentType: 'application/json' },
+    onlyIf: etag ? { etagMatches: etag } : { etagDoesNotMatch: '*' }
+  });
+}
 
-  // Extract description/info
-  const descriptionMatch = text.match(/\.description\s*=\s*['"]([^'"]+)['"]/);
-  if (descriptionMatch) {
-    metadata.info = descriptionMatch[1];
+async function getVersionIndex(kv: KVNamespace, r2: R2Bucket, name: string): Promise<string[]> {
+  const object = await r2.get(versionIndexKey(name));
+  if (object) {
+    return object.json<string[]>();
   }
 
-  // Extract authors (simplified)
-  const authorsMatch = text.match(/\.authors\s*=\s*\[(.*?)\]/s);
-  if (authorsMatch) {
-    const authorsText = authorsMatch[1];
-    const authorsList = authorsText.match(/['"]([^'"]+)['"]/g);
-    if (authorsList) {
-      metadata.authors = authorsList.map(author => author.replace(/['"]/g, ''));
-    }
+  // Gems saved before the index existed get one built from their keys on first read. The write
+  // is skipped if a push created the index in the meantime.
+  const versions = await listVersionSlugs(kv, name);
+  if (versions.length > 0) {
+    await writeVersionIndex(r2, name, versions, null);
   }
 
-  return metadata;
+  return versions;
 }
 
-// KV utilities
-export async function getAllGems(kv: KVNamespace): Promise<GemMetadata[]> {
-  console.log('Getting all gems from KV');
-  const list = await kv.list({ prefix: 'gem:' });
-  console.log('KV list result:', list);
-
-  const gems: GemMetadata[] = [];
+// Apply a read-modify-write to a gem's version index, retrying when another request wrote it first
+async function updateVersionIndex(kv: KVNamespace, r2: R2Bucket, name: string, update: (slugs: string[]) => string[]): Promise<void> {
+  for (let attempt = 0; attempt < VERSION_INDEX_WRITE_ATTEMPTS; attempt++) {
+    const object = await r2.get(versionIndexKey(name));
+    const slugs = object ? await object.json<string[]>() : await listVersionSlugs(kv, name);
+    const updated = update(slugs);
+    if (object && updated.length === slugs.length && updated.every(slug => slugs.includes(slug))) {
+      return;
+    }
 
-  for (const key of list.keys) {
-    console.log('Fetching gem data for key:', key.name);
-    const gemData = await kv.get(key.name, 'json') as GemMetadata;
-    if (gemData) {
-      console.log('Gem data for key:', key.name, 'found');
-      gems.push(gemData);
-    } else {
-      console.log('No gem data found for key:', key.name);
+    if (await writeVersionIndex(r2, name, updated, object ? object.etag : null)) {
+      return;
     }
+
+    console.log(`Version index of ${name} changed during update, retrying`);
   }
 
-  // Sort gems by name and version
-  gems.sort((a, b) => {
-    if (a.name === b.name) {
-      // Sort versions in descending order (newest first)
-      return b.version.localeCompare(a.version, undefined, { numeric: true, sensitivity: 'base' });
-    }
-    return a.name.localeCompare(b.name);
-  });
+  throw new Error(`Could not update the version index of ${name}`);
+}
 
-  return gems;
+function addToVersionIndex(kv: KVNamespace, r2: R2Bucket, name: string, slug: string): Promise<void> {
+  return updateVersionIndex(kv, r2, name, slugs => slugs.includes(slug) ? slugs : [...slugs, slug]);
 }
 
-export async function getGem(kv: KVNamespace, name: string): Promise<GemMetadata | null> {
-  // This gets the latest version of a gem
-  const list = await kv.list({ prefix: `gem:${name}:` });
-  if (list.keys.length === 0) return null;
+function removeFromVersionIndex(kv: KVNamespace, r2: R2Bucket, name: string, slug: string): Promise<void> {
+  return updateVersionIndex(kv, r2, name, slugs => slugs.filter(v => v !== slug));
+}
 
-  // Get all versions of this gem
-  const versions: GemMetadata[] = [];
-  for (const key of list.keys) {
-    const gemData = await kv.get(key.name, 'json') as GemMetadata;
-    if (gemData) {
-      versions.push(gemData);
-    }
-  }
+// Every stored version record of a gem, including yanked ones
+export async function getGemVersions(kv: KVNamespace, r2: R2Bucket, name: string): Promise<GemMetadata[]> {
+  const index = await getVersionIndex(kv, r2, name);
+  const records = await Promise.all(index.map(slug => kv.get(`gem:${name}:${slug}`, 'json') as Promise<GemMetadata | null>));
 
-  if (versions.length === 0) return null;
+  return records.filter((gemData): gemData is GemMetadata => gemData !== null && gemData.name === name);
+}
 
-  // Sort by version (newest first)
-  versions.sort((a, b) =>
-    b.version.localeCompare(a.version, undefined, { numeric: true, sensitivity: 'base' })
-  );
+// Published versions are immutable, even yanked ones. Other platform builds of the same version
+// can still be pushed.
+export async function assertNotRepush(kv: KVNamespace, metadata: GemMetadata): Promise<void> {
+  const existing = await getGemVersion(kv, metadata.name, metadata.version, metadata.platform || 'ruby');
 
-  // Return the latest version
-  return versions[0];
+  if (existing) {
+    throw new InvalidGemError(
+      'Repushing of gem versions is not allowed.\nPlease bump the version number and push a new different release.\nSee also `gem yank` if you want to unpublish the bad release.',
+      409
+    );
+  }
 }
 
-export async function getGemVersion(kv: KVNamespace, name: string, version: string): Promise<GemMetadata | null> {
-  const key = `gem:${name}:${version}`;
-  const gemData = await kv.get(key, 'json') as GemMetadata;
-  return gemData || null;
+// Move a platform gem record stored under gem:<name>:<version> by an older version of GemFlare to
+// its own key, so it isn't overwritten by the pure-Ruby build of the same version. Returns the
+// new key, or null when there was nothing to move.
+export async function moveLegacyPlatformRecord(kv: KVNamespace, r2: R2Bucket, name: string, version: string): Promise<string | null> {
+  const key = gemRecordKey(name, version);
+  const existing = await kv.get(key, 'json') as GemMetadata | null;
+  if (!existing || samePlatform(existing, 'ruby')) {
+    return null;
+  }
+
+  const target = gemRecordKey(name, version, existing.platform);
+  console.log(`Moving gem metadata from ${key} to ${target}`);
+  await kv.put(target, JSON.stringify(existing));
+  await addToVersionIndex(kv, r2, name, gemVersionSlug(version, existing.platform));
+  await kv.delete(key);
+  await removeFromVersionIndex(kv, r2, name, version);
+
+  return target;
 }
 
-export async function saveGem(kv: KVNamespace, metadata: GemMetadata): Promise<void> {
-  const key = `gem:${metadata.name}:${metadata.version}`;
+export async function saveGem(kv: KVNamespace, r2: R2Bucket, metadata: GemMetadata): Promise<void> {
+  const key = gemRecordKey(metadata.name, metadata.version, metadata.platform);
   console.log('Saving gem metadata to KV with key:', key);
   console.log('Metadata:', metadata);
 
   try {
+    await moveLegacyPlatformRecord(kv, r2, metadata.name, metadata.version);
     await kv.put(key, JSON.stringify(metadata));
+    await addToVersionIndex(kv, r2, metadata.name, gemVersionSlug(metadata.version, metadata.platform));
     console.log('Gem metadata saved successfully');
   } catch (error) {
     console.error('Error saving gem metadata to KV:', error);
@@ -294,238 +270,796 @@ export async function saveGem(kv: KVNamespace, metadata: GemMetadata): Promise<v
   }
 }
 
-export async function incrementDownloads(kv: KVNamespace, name: string, version: string): Promise<void> {
-  const key = `gem:${name}:${version}`;
-  const gemData = await kv.get(key, 'json') as GemMetadata;
+// Mark a gem version as yanked. The R2 object is kept for auditing.
+export async function yankGem(kv: KVNamespace, r2: R2Bucket, name: string, version: string, platform: string = 'ruby'): Promise<GemMetadata | null> {
+  const gemData = await getGemVersion(kv, name, version, platform);
 
-  if (gemData) {
-    gemData.downloads = (gemData.downloads || 0) + 1;
-    await kv.put(key, JSON.stringify(gemData));
+  if (!gemData) {
+    return null;
   }
+
+  gemData.yanked = true;
+  gemData.yanked_at = new Date().toISOString();
+  await saveGem(kv, r2, gemData);
+
+  return gemData;
 }
 
-// Generate info endpoint content for Compact Index
-export async function generateInfoContent(kv: KVNamespace, gemName: string): Promise<string> {
-  const list = await kv.list({ prefix: `gem:${gemName}:` });
-  const versions: GemMetadata[] = [];
-  
-  for (const key of list.keys) {
-    const gemData = await kv.get(key.name, 'json') as GemMetadata;
-    if (gemData) {
-      versions.push(gemData);
+// Restore a previously yanked gem version
+export async function unyankGem(kv: KVNamespace, r2: R2Bucket, name: string, version: string, platform: string = 'ruby'): Promise<GemMetadata | null> {
+  const gemData = await getGemVersion(kv, name, version, platform);
+
+  if (!gemData) {
+    return null;
+  }
+
+  delete gemData.yanked;
+  delete gemData.yanked_at;
+  await saveGem(kv, r2, gemData);
+
+  return gemData;
+}
+
+// Permanently remove a gem version from KV and R2
+export async function deleteGem(kv: KVNamespace, r2: R2Bucket, name: string, version: string, platform: string = 'ruby'): Promise<boolean> {
+  const gemData = await getGemVersion(kv, name, version, platform);
+
+  if (!gemData) {
+    return false;
+  }
+
+  await r2.delete([
+    gemObjectKey(name, version, platform),
+    quickSpecKey(name, version, platform),
+    gemContentsKey(name, version, platform)
+  ]);
+  await moveLegacyPlatformRecord(kv, r2, name, version);
+  await kv.delete(gemRecordKey(name, version, platform));
+  await removeFromVersionIndex(kv, r2, name, gemVersionSlug(version, platform));
+  console.log(`Deleted gem ${name} (${gemVersionSlug(version, platform)})`);
+
+  return true;
+}
+
+// Ownership utilities
+export async function getGemOwners(kv: KVNamespace, name: string): Promise<string[]> {
+  const owners = await kv.get(`owners:${name}`, 'json') as string[] | null;
+  return owners || [];
+}
+
+export async function setGemOwners(kv: KVNamespace, name: string, owners: string[]): Promise<void> {
+  console.log(`Setting owners of ${name}: ${owners.join(', ')}`);
+  await kv.put(`owners:${name}`, JSON.stringify([...new Set(owners)]));
+}
+
+// Whether a user may push new versions of, yank or manage the owners of a gem
+export async function canManageGem(kv: KVNamespace, r2: R2Bucket, name: string, user: AuthUser): Promise<boolean> {
+  if (user.isAdmin) {
+    return true;
+  }
+
+  const owners = await getGemOwners(kv, name);
+  if (owners.length > 0) {
+    return owners.includes(user.username);
+  }
+
+  // Anyone may claim a brand new gem name; gems published before ownership existed stay admin-only
+  return !(await getGem(kv, r2, name));
+}
+
+// Name reservations (reservation:<pattern>). "*" matches any run of characters and matching
+// ignores case, so "acme-*" also covers "Acme-Widgets".
+const RESERVATION_PATTERN = /^[a-zA-Z0-9_.*-]+$/;
+
+export function validateReservationPattern(pattern: string): string | null {
+  if (!RESERVATION_PATTERN.test(pattern) || !/[a-zA-Z0-9]/.test(pattern)) {
+    return 'Patterns may only use letters, numbers, ".", "_", "-" and "*", and must include a letter or number.';
+  }
+  return null;
+}
+
+function reservationMatches(pattern: string, name: string): boolean {
+  const source = pattern.split('*').map(part => part.replace(/[.]/g, '\\.')).join('.*');
+  return new RegExp(`^${source}$`, 'i').test(name);
+}
+
+export async function listReservations(kv: KVNamespace): Promise<NameReservation[]> {
+  const keys = await listKeys(kv, 'reservation:');
+  const reservations = await Promise.all(keys.map(key => kv.get(key, 'json') as Promise<NameReservation | null>));
+
+  return reservations
+    .filter((reservation): reservation is NameReservation => reservation !== null)
+    .sort((a, b) => a.pattern.localeCompare(b.pattern));
+}
+
+export async function saveReservation(kv: KVNamespace, reservation: NameReservation): Promise<void> {
+  await kv.put(`reservation:${reservation.pattern}`, JSON.stringify(reservation));
+}
+
+export async function deleteReservation(kv: KVNamespace, pattern: string): Promise<void> {
+  await kv.delete(`reservation:${pattern}`);
+}
+
+// The reservations a gem name falls under
+export function matchingReservations(reservations: NameReservation[], name: string): NameReservation[] {
+  return reservations.filter(reservation => reservationMatches(reservation.pattern, name));
+}
+
+// Whether a user may push a gem name under the reservations; every matching reservation must list them
+export async function canPushReservedName(kv: KVNamespace, name: string, user: AuthUser): Promise<boolean> {
+  const reservations = matchingReservations(await listReservations(kv), name);
+  return reservations.every(reservation => reservation.owners.includes(user.username));
+}
+
+// Compact Index utilities
+// https://guides.rubygems.org/rubygems-org-compact-index-api/
+
+// Version string as it appears in the compact index, e.g. "1.0.0" or "1.0.0-x86_64-linux"
+function compactIndexVersion(gem: GemMetadata): string {
+  return gem.platform && gem.platform !== 'ruby' ? `${gem.version}-${gem.platform}` : gem.version;
+}
+
+// Requirement lists are written as "req1&req2", e.g. ">= 1.0&< 2"
+function compactIndexRequirement(requirements: string): string {
+  return requirements.split(',').map(req => req.trim()).filter(Boolean).join('&') || '>= 0';
+}
+
+// Build the info file for a single gem from its version records.
+// Lines are ordered by publication time so that new releases are appended to the end.
+export function buildInfoContent(versions: GemMetadata[]): string {
+  const sorted = versions
+    .filter(gem => !gem.yanked)
+    .sort((a, b) => (a.created_at || '').localeCompare(b.created_at || '') || compareVersions(a.version, b.version));
+
+  let content = '---\n';
+
+  for (const gem of sorted) {
+    // Format: version[-platform] dep:req&req,dep:req|checksum:sha256,ruby:req,rubygems:req
+    const deps = (gem.dependencies || [])
+      .filter(dep => dep.type !== 'development')
+      .map(dep => `${dep.name}:${compactIndexRequirement(dep.requirements)}`)
+      .join(',');
+
+    const requirements = [`checksum:${gem.sha256 || ''}`];
+    if (gem.required_ruby_version && gem.required_ruby_version !== '>= 0') {
+      requirements.push(`ruby:${compactIndexRequirement(gem.required_ruby_version)}`);
     }
+    if (gem.required_rubygems_version && gem.required_rubygems_version !== '>= 0') {
+      requirements.push(`rubygems:${compactIndexRequirement(gem.required_rubygems_version)}`);
+    }
+
+    content += `${compactIndexVersion(gem)} ${deps}|${requirements.join(',')}\n`;
   }
-  
-  versions.sort((a, b) => a.version.localeCompare(b.version, undefined, { numeric: true, sensitivity: 'base' }));
-  
-  let content = '';
-  
-  for (const gem of versions) {
-    // Format: version,sha,platform,dependencies
-    const deps = gem.dependencies ? Object.entries(gem.dependencies).map(([name, version]) => `${name}:${version}`).join(',') : '';
-    content += `${gem.version},${gem.sha},${gem.platform || 'ruby'},${deps}\n`;
+
+  return content;
+}
+
+// Generate info endpoint content for Compact Index, or null for an unknown gem
+export async function generateInfoContent(kv: KVNamespace, r2: R2Bucket, gemName: string): Promise<string | null> {
+  const versions = await getGemVersions(kv, r2, gemName);
+
+  if (versions.length === 0) {
+    return null;
   }
   
-  return content;
+  return buildInfoContent(versions);
 }
 
 // Generate names endpoint content for Compact Index
 export async function generateNamesContent(kv: KVNamespace): Promise<string> {
-  const list = await kv.list({ prefix: 'gem:' });
+  const keys = await listKeys(kv, 'gem:');
   const gemNames = new Set<string>();
   
-  for (const key of list.keys) {
+  for (const key of keys) {
     // Extract gem name from key (format: gem:name:version)
-    const parts = key.name.split(':');
+    const parts = key.split(':');
     if (parts.length >= 2) {
       gemNames.add(parts[1]);
     }
   }
   
-  return Array.from(gemNames).sort().join("\n");
+  return '---\n' + Array.from(gemNames).sort().map(name => `${name}\n`).join('');
+}
+
+// Build the versions file from every gem record.
+// Gems are listed in the order they were first published, each with the MD5 of its info file
+// so clients only refetch the info files that changed.
+export function buildVersionsContent(gems: GemMetadata[], createdAt?: string): string {
+  const gemVersions: Record<string, GemMetadata[]> = {};
+
+  for (const gem of gems) {
+    if (!gemVersions[gem.name]) {
+      gemVersions[gem.name] = [];
+    }
+    gemVersions[gem.name].push(gem);
+  }
+
+  const firstPublished = (versions: GemMetadata[]) =>
+    versions.map(gem => gem.created_at || '').sort()[0] || '';
+
+  const names = Object.keys(gemVersions).sort((a, b) =>
+    firstPublished(gemVersions[a]).localeCompare(firstPublished(gemVersions[b])) || a.localeCompare(b));
+
+  // Without an explicit rebuild time the header only changes when the oldest gem changes
+  const header = createdAt || (names.length > 0 ? firstPublished(gemVersions[names[0]]) : '') || new Date(0).toISOString();
+
+  // Format: name version,version-platform info-md5
+  let content = `created_at: ${header}\n---\n`;
+  for (const name of names) {
+    const published = gemVersions[name]
+      .filter(gem => !gem.yanked)
+      .sort((a, b) => compareVersions(a.version, b.version));
+
+    if (published.length === 0) {
+      continue;
+    }
+
+    const infoChecksum = md5(buildInfoContent(published));
+    content += `${name} ${published.map(compactIndexVersion).join(',')} ${infoChecksum}\n`;
+  }
+
+  return content;
 }
 
 // Generate versions endpoint content for Compact Index
 export async function generateVersionsContent(kv: KVNamespace): Promise<string> {
-  const list = await kv.list({ prefix: 'gem:' });
-  const gemVersions: Record<string, string[]> = {};
-  
-  for (const key of list.keys) {
-    const gemData = await kv.get(key.name, 'json') as GemMetadata;
-    if (gemData) {
-      if (!gemVersions[gemData.name]) {
-        gemVersions[gemData.name] = [];
-      }
-      gemVersions[gemData.name].push(gemData.version);
+  return buildVersionsContent(await getAllGems(kv));
+}
+
+export interface CompactIndexValidators {
+  etag: string;
+  reprDigest: string;
+}
+
+// ETag and Repr-Digest values for a compact index file, derived from its content
+export function compactIndexValidators(content: string): CompactIndexValidators {
+  return {
+    etag: `"${md5(content)}"`,
+    reprDigest: `sha-256=:${crypto.createHash('sha256').update(content).digest('base64')}:`
+  };
+}
+
+const compactIndexHeaders = (validators: CompactIndexValidators): Record<string, string> => ({
+  'Content-Type': 'text/plain; charset=utf-8',
+  'ETag': validators.etag,
+  'Repr-Digest': validators.reprDigest,
+  'Accept-Ranges': 'bytes',
+  'Cache-Control': 'max-age=60'
+});
+
+function matchesIfNoneMatch(request: Request, etag: string): boolean {
+  const ifNoneMatch = request.headers.get('If-None-Match');
+  return !!ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag || tag.trim() === '*');
+}
+
+// The bytes asked for by a "Range: bytes=N-[M]" request of a file of the given size: null when
+// the request has no such header, 'unsatisfiable' when the range lies outside the file
+function requestedRange(request: Request, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+  const rangeMatch = request.headers.get('Range')?.match(/^bytes=(\d+)-(\d*)$/);
+  if (!rangeMatch) {
+    return null;
+  }
+
+  const start = parseInt(rangeMatch[1], 10);
+  const end = rangeMatch[2] ? Math.min(parseInt(rangeMatch[2], 10), size - 1) : size - 1;
+  return start >= size || start > end ? 'unsatisfiable' : { start, end };
+}
+
+function unsatisfiableRange(headers: Record<string, string>, size: number): Response {
+  return new Response(null, {
+    status: 416,
+    headers: { ...headers, 'Content-Range': `bytes */${size}` }
+  });
+}
+
+// Serve a compact index file with content-derived validators.
+// Supports If-None-Match (304) and "Range: bytes=N-" requests so Bundler can fetch only what
+// was appended since its last update; Repr-Digest always describes the full file.
+export function compactIndexResponse(
+  request: Request,
+  content: string,
+  validators: CompactIndexValidators = compactIndexValidators(content)
+): Response {
+  const body = new TextEncoder().encode(content);
+  const headers = compactIndexHeaders(validators);
+
+  if (matchesIfNoneMatch(request, validators.etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  const range = requestedRange(request, body.length);
+  if (range === 'unsatisfiable') {
+    return unsatisfiableRange(headers, body.length);
+  }
+  if (range) {
+    return new Response(body.slice(range.start, range.end + 1), {
+      status: 206,
+      headers: { ...headers, 'Content-Range': `bytes ${range.start}-${range.end}/${body.length}` }
+    });
+  }
+
+  return new Response(body, { headers });
+}
+
+// Precomputed compact index files live in R2 under compact/ so requests don't have to scan KV
+const COMPACT_INDEX_PREFIX = 'compact/';
+const COMPACT_INDEX_WRITE_ATTEMPTS = 5;
+
+// The /versions file of a mirror: upstream lines for names GemFlare doesn't host, then the local ones
+export const MIRRORED_VERSIONS_PATH = 'mirror/versions';
+
+export interface CompactIndexFile extends CompactIndexValidators {
+  content: string;
+}
+
+// A push, yank, unyank or delete of one gem version
+export interface CompactIndexChange {
+  name: string;
+  version: string;
+  platform?: string;
+  removed?: boolean;
+}
+
+async function putCompactIndexFile(r2: R2Bucket, path: string, content: string, onlyIf?: R2Conditional): Promise<boolean> {
+  const validators = compactIndexValidators(content);
+  const object = await r2.put(`${COMPACT_INDEX_PREFIX}${path}`, content, {
+    httpMetadata: { contentType: 'text/plain; charset=utf-8' },
+    customMetadata: { etag: validators.etag, reprDigest: validators.reprDigest },
+    onlyIf
+  });
+
+  // R2 returns null when the onlyIf precondition fails
+  return object !== null;
+}
+
+// Read a precomputed compact index file (e.g. "versions" or "info/rack") from R2
+export async function getCompactIndexFromR2(r2: R2Bucket, path: string): Promise<CompactIndexFile | null> {
+  const object = await r2.get(`${COMPACT_INDEX_PREFIX}${path}`);
+  if (!object) {
+    return null;
+  }
+
+  const content = await object.text();
+  const stored = object.customMetadata || {};
+
+  return {
+    content,
+    ...(stored.etag && stored.reprDigest
+      ? { etag: stored.etag, reprDigest: stored.reprDigest }
+      : compactIndexValidators(content))
+  };
+}
+
+// Serve a precomputed compact index file from R2, or return null when it hasn't been built.
+// The validators come from the object's custom metadata, so If-None-Match requests are answered
+// from its metadata alone and other requests stream just the bytes they asked for. Files such as
+// the mirrored /versions file are far too large to read into memory on every request.
+export async function compactIndexFileResponse(request: Request, r2: R2Bucket, path: string): Promise<Response | null> {
+  const key = `${COMPACT_INDEX_PREFIX}${path}`;
+
+  for (let attempt = 0; attempt < COMPACT_INDEX_WRITE_ATTEMPTS; attempt++) {
+    const head = await r2.head(key);
+    if (!head) {
+      return null;
     }
+
+    const stored = head.customMetadata || {};
+    if (!stored.etag || !stored.reprDigest) {
+      // Stored without validators, so they have to be computed from the content
+      const file = await getCompactIndexFromR2(r2, path);
+      return file && compactIndexResponse(request, file.content, file);
+    }
+
+    const headers = compactIndexHeaders({ etag: stored.etag, reprDigest: stored.reprDigest });
+    if (matchesIfNoneMatch(request, stored.etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    const range = requestedRange(request, head.size);
+    if (range === 'unsatisfiable') {
+      return unsatisfiableRange(headers, head.size);
+    }
+
+    // The object must still be the one the validators were read from
+    const object = await r2.get(key, {
+      onlyIf: { etagMatches: head.etag },
+      range: range ? { offset: range.start, length: range.end - range.start + 1 } : undefined
+    });
+    if (object && 'body' in object) {
+      return range
+        ? new Response(object.body, { status: 206, headers: { ...headers, 'Content-Range': `bytes ${range.start}-${range.end}/${head.size}` } })
+        : new Response(object.body, { headers });
+    }
+
+    console.log(`Compact index file ${path} changed while being served, retrying`);
   }
-  
-  // Format: name versions,versions
-  let content = '';
-  for (const [name, versions] of Object.entries(gemVersions)) {
-    versions.sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
-    content += `${name} ${versions.join(',')}\n`;
+
+  throw new Error(`Could not read compact index file ${path}`);
+}
+
+// Apply a read-modify-write to a compact index file, retrying when another request wrote it first
+export async function updateCompactIndexFile(
+  r2: R2Bucket,
+  path: string,
+  update: (content: string) => string | null
+): Promise<boolean> {
+  for (let attempt = 0; attempt < COMPACT_INDEX_WRITE_ATTEMPTS; attempt++) {
+    const object = await r2.get(`${COMPACT_INDEX_PREFIX}${path}`);
+    if (!object) {
+      return false;
+    }
+
+    const content = update(await object.text());
+    if (content === null) {
+      return true;
+    }
+
+    if (await putCompactIndexFile(r2, path, content, { etagMatches: object.etag })) {
+      return true;
+    }
+
+    console.log(`Compact index file ${path} changed during update, retrying`);
   }
-  
-  return content;
+
+  throw new Error(`Could not update compact index file ${path}`);
+}
+
+// Replace a compact index file with content built from other files. build runs after the file's
+// etag is read, so a request that changes both the file and build's sources meanwhile makes the
+// write fail and the build run again. Returns false when every attempt lost to another write.
+export async function replaceCompactIndexFile(r2: R2Bucket, path: string, build: () => Promise<string>): Promise<boolean> {
+  for (let attempt = 0; attempt < COMPACT_INDEX_WRITE_ATTEMPTS; attempt++) {
+    const object = await r2.head(`${COMPACT_INDEX_PREFIX}${path}`);
+    const content = await build();
+
+    if (await putCompactIndexFile(r2, path, content, object ? { etagMatches: object.etag } : { etagDoesNotMatch: '*' })) {
+      return true;
+    }
+
+    console.log(`Compact index file ${path} changed during rebuild, retrying`);
+  }
+
+  console.error(`Could not rebuild compact index file ${path}`);
+  return false;
+}
+
+// Rebuild every compact index file from KV
+export async function rebuildCompactIndexInR2(r2: R2Bucket, kv: KVNamespace): Promise<number> {
+  console.log('Rebuilding compact index in R2');
+  const gems = await getAllGems(kv);
+
+  const gemsByName: Record<string, GemMetadata[]> = {};
+  for (const gem of gems) {
+    if (!gemsByName[gem.name]) {
+      gemsByName[gem.name] = [];
+    }
+    gemsByName[gem.name].push(gem);
+  }
+
+  for (const [name, versions] of Object.entries(gemsByName)) {
+    await putCompactIndexFile(r2, `info/${name}`, buildInfoContent(versions));
+  }
+
+  await putCompactIndexFile(r2, 'names', '---\n' + Object.keys(gemsByName).sort().map(name => `${name}\n`).join(''));
+  await putCompactIndexFile(r2, 'versions', buildVersionsContent(gems, new Date().toISOString()));
+
+  console.log(`Compact index rebuilt for ${Object.keys(gemsByName).length} gems`);
+  return Object.keys(gemsByName).length;
 }
 
-// Generate dependencies response for the dependencies API endpoint
-export async function generateDependenciesResponse(gems: GemMetadata[], requestedGems: string[]): Promise<ArrayBuffer> {
+// Update the compact index after one gem version changes.
+// The versions file is append-only between rebuilds, like rubygems.org: a push adds
+// "name version md5" and a yank adds "name -version md5", with the later line's checksum winning.
+export async function updateCompactIndexInR2(r2: R2Bucket, kv: KVNamespace, change: CompactIndexChange): Promise<void> {
+  const versions = await getGemVersions(kv, r2, change.name);
+
+  const versionsFile = await r2.head(`${COMPACT_INDEX_PREFIX}versions`);
+  if (!versionsFile) {
+    // Nothing has been materialized yet, so build everything once
+    await rebuildCompactIndexInR2(r2, kv);
+    return;
+  }
+
+  const info = buildInfoContent(versions);
+  if (versions.length > 0) {
+    await putCompactIndexFile(r2, `info/${change.name}`, info);
+  } else {
+    await r2.delete(`${COMPACT_INDEX_PREFIX}info/${change.name}`);
+  }
+
+  const version = compactIndexVersion({ name: change.name, version: change.version, platform: change.platform });
+  const line = `${change.name} ${change.removed ? '-' : ''}${version} ${md5(info)}\n`;
+  await updateCompactIndexFile(r2, 'versions', content => content + line);
+  await updateCompactIndexFile(r2, MIRRORED_VERSIONS_PATH, content => content + line);
+
+  await updateCompactIndexFile(r2, 'names', content => {
+    const names = new Set(content.split('\n').filter(name => name && name !== '---'));
+    const listed = names.has(change.name);
+
+    if (versions.length > 0 && !listed) {
+      names.add(change.name);
+    } else if (versions.length === 0 && listed) {
+      names.delete(change.name);
+    } else {
+      return null;
+    }
+
+    return '---\n' + Array.from(names).sort().map(name => `${name}\n`).join('');
+  });
+
+  console.log(`Compact index updated for ${change.name} ${version}`);
+}
+
+function md5(content: string): string {
+  return crypto.createHash('md5').update(content).digest('hex');
+}
+
+// Dependency API (Bundler's pre-compact-index protocol)
+// Format: [{:name=>"rails", :number=>"3.0.3", :platform=>"ruby", :dependencies=>[["bundler", "~> 1.0"], ...]}, ...]
+export interface DependencyEntry {
+  name: string;
+  number: string;
+  platform: string;
+  dependencies: [string, string][];
+}
+
+// Entries for the installable versions of some gems: yanked versions and development
+// dependencies are left out, as on rubygems.org
+export function buildDependencyEntries(gems: GemMetadata[]): DependencyEntry[] {
+  return gems
+    .filter(gem => !gem.yanked)
+    .sort((a, b) => a.name.localeCompare(b.name) || compareVersions(a.version, b.version))
+    .map(gem => ({
+      name: gem.name,
+      number: gem.version,
+      platform: gem.platform || 'ruby',
+      dependencies: (gem.dependencies || [])
+        .filter(dep => dep.type !== 'development')
+        .map(dep => [dep.name, dependencyRequirement(dep.requirements)] as [string, string])
+    }));
+}
+
+// A dependency requirement as RubyGems prints it, e.g. "2.1" -> "= 2.1". Requirements that don't
+// parse are passed on unchanged.
+function dependencyRequirement(requirements: string): string {
   try {
-    console.log(`Generating dependencies response for: ${requestedGems.join(', ')}`);
-    
-    // Filter gems by requested names
-    const filteredGems = gems.filter(gem => requestedGems.includes(gem.name));
-    console.log(`Found ${filteredGems.length} matching gems`);
-    
-    // Format: [{:name=>"rails", :number=>"3.0.3", :platform=>"ruby", :dependencies=>[["bundler", "~> 1.0"], ...]}, ...]
-    const dependenciesData = filteredGems.map(gem => {
-      // Format dependencies as [["name", "requirements"], ...]
-      const formattedDependencies = (gem.dependencies || []).map(dep => [
-        dep.name,
-        dep.requirements || ">= 0"
-      ]);
-      
-      return {
-        name: gem.name,
-        number: gem.version,
-        platform: gem.platform || "ruby",
-        dependencies: formattedDependencies
-      };
+    return formatRequirement(requirements || '>= 0');
+  } catch (e) {
+    return requirements;
+  }
+}
+
+// Bundler reads the entries with symbol keys
+export function marshalDependencies(entries: DependencyEntry[]): Uint8Array {
+  return dump(entries, { hashStringKeysToSymbol: true });
+}
+
+// A gem that can't be accepted, with the HTTP status and message `gem push` should print
+export class InvalidGemError extends Error {
+  status: 403 | 409 | 422;
+
+  constructor(message: string, status: 403 | 409 | 422 = 422) {
+    super(message);
+    this.name = 'InvalidGemError';
+    this.status = status;
+  }
+}
+
+// Wrap a package problem in the message RubyGems.org gives for unprocessable gems
+function corruptGem(reason: string): InvalidGemError {
+  return new InvalidGemError(
+    `GemFlare cannot process this gem.\nPlease try rebuilding it and installing it locally to make sure it's valid.\nError:\n${reason}\n`
+  );
+}
+
+const GEM_NAME_PATTERN = /^[a-zA-Z0-9_.-]+$/;
+const GEM_PLATFORM_PATTERN = /^[a-zA-Z0-9_.-]+$/;
+const CHECKSUM_ALGORITHMS: Record<string, string> = { SHA1: 'sha1', SHA256: 'sha256', SHA512: 'sha512' };
+
+interface TarEntry {
+  name: string;
+  type: string;
+  data: Buffer;
+}
+
+// Read every entry of an uncompressed tar archive
+function readTarEntries(tarBuffer: Buffer): Promise<TarEntry[]> {
+  const extract = tar.extract();
+
+  return new Promise<TarEntry[]>((resolve, reject) => {
+    const entries: TarEntry[] = [];
+
+    // Handle each entry in the tar file
+    extract.on('entry', (header: { name: string; type?: string }, entryStream: stream.Readable, next: () => void) => {
+      const chunks: Buffer[] = [];
+
+      entryStream.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+      });
+
+      entryStream.on('end', () => {
+        entries.push({ name: header.name, type: header.type || 'file', data: Buffer.concat(chunks) });
+        next();
+      });
     });
-    
-    console.log('Dependencies data prepared:', JSON.stringify(dependenciesData));
-    
-    // Use @hyrious/marshal to create Ruby Marshal format
-    console.log('Creating Ruby Marshal format for dependencies');
-    const marshaledData = dump(dependenciesData);
-    console.log('Marshal data created, length:', marshaledData.length);
-    
-    return marshaledData.buffer;
+
+    extract.on('finish', () => resolve(entries));
+    extract.on('error', reject);
+
+    // Start the extraction
+    const tarStream = new stream.PassThrough();
+    tarStream.end(tarBuffer);
+    tarStream.pipe(extract);
+  });
+}
+
+// Read every top-level entry of a .gem (an uncompressed tar archive)
+async function readGemEntries(buffer: ArrayBuffer): Promise<[string, Buffer][]> {
+  try {
+    // Convert ArrayBuffer to Buffer for tar-stream
+    const entries = await readTarEntries(Buffer.from(buffer));
+    return entries.map(entry => [entry.name, entry.data]);
   } catch (error) {
-    console.error('Error generating dependencies response:', error);
-    // Return an empty array in case of error
-    return dump([]).buffer;
+    throw corruptGem(`not a valid gem package: ${error instanceof Error ? error.message : error}`);
   }
 }
 
-/**
- * Parse gem file and extract metadata
- */
-export async function parseGemFile(buffer: ArrayBuffer): Promise<GemMetadata> {
+async function gunzipEntry(name: string, data: Buffer): Promise<Buffer> {
   try {
-    console.log('Parsing gem file');
-    
-    // Convert ArrayBuffer to Buffer for tar-stream
-    const tarBuffer = Buffer.from(buffer);
-    
-    // Create a new extract instance
-    const extract = tar.extract();
-    
-    // Create a promise to handle the async extraction
-    return new Promise((resolve, reject) => {
-      let metadata: Partial<GemMetadata> = {};
-      let specData = '';
-      
-      // Handle each entry in the tar file
-      extract.on('entry', (header, stream, next) => {
-        // We're looking for the metadata.gz file
-        if (header.name === 'metadata.gz') {
-          const chunks: Buffer[] = [];
-          
-          stream.on('data', (chunk) => {
-            chunks.push(chunk);
-          });
-          
-          stream.on('end', async () => {
-            try {
-              // Combine all chunks
-              const buffer = Buffer.concat(chunks);
-              
-              // Decompress gzip
-              const decompressed = await gunzipBufferNode(buffer);
-              
-              // Parse the YAML content
-              specData = decompressed.toString('utf-8');
-              
-              // Continue to the next entry
-              next();
-            } catch (error) {
-              reject(new Error(`Failed to parse metadata.gz: ${error}`));
-            }
-          });
-        } else {
-          // Skip other entries
-          stream.on('end', () => {
-            next();
-          });
-          stream.resume();
-        }
-      });
-      
-      // Handle the end of the tar extraction
-      extract.on('finish', async () => {
-        try {
-          if (!specData) {
-            reject(new Error('No metadata.gz found in gem file'));
-            return;
-          }
-          
-          // Parse the YAML content
-          const spec = yaml.load(specData) as any;
-          
-          if (!spec) {
-            reject(new Error('Failed to parse gem spec'));
-            return;
-          }
-          
-          // Extract relevant metadata
-          metadata.name = spec.name;
-          metadata.version = spec.version?.version || spec.version;
-          metadata.platform = spec.platform || 'ruby';
-          metadata.authors = spec.authors;
-          metadata.info = spec.description || spec.summary;
-          metadata.created_at = new Date().toISOString();
-          
-          // Extract dependencies
-          if (spec.dependencies) {
-            metadata.dependencies = [];
-            
-            for (const [name, requirements] of Object.entries(spec.dependencies)) {
-              metadata.dependencies.push({
-                name,
-                requirements: requirements as string
-              });
-            }
-          }
-          
-          // Calculate SHA256 of the gem file
-          const sha256Hash = await sha256(buffer);
-          metadata.sha256 = sha256Hash;
-          
-          // Get the size of the gem file
-          metadata.size = tarBuffer.length;
-          
-          resolve(metadata as GemMetadata);
-        } catch (error) {
-          reject(new Error(`Failed to extract gem metadata: ${error}`));
+    return await gunzipBufferNode(data);
+  } catch (error) {
+    throw corruptGem(`${name} is not in gzip format (${error instanceof Error ? error.message : error})`);
+  }
+}
+
+// Check a .gem the way `gem install` does (Gem::Package#verify) and return its gemspec
+export async function extractGemspec(buffer: ArrayBuffer): Promise<Gemspec> {
+  const entries = await readGemEntries(buffer);
+  const names = entries.map(([name]) => name);
+
+  const duplicates = names.filter((name, index) => names.indexOf(name) !== index);
+  if (duplicates.length > 0) {
+    throw corruptGem(`duplicate files in the package: (${[...new Set(duplicates)].map(name => JSON.stringify(name)).join(', ')})`);
+  }
+
+  const files = new Map(entries);
+
+  // Very old gems store an uncompressed "metadata" entry
+  const metadataGz = files.get('metadata.gz');
+  const metadata = metadataGz ? await gunzipEntry('metadata.gz', metadataGz) : files.get('metadata');
+  if (!metadata) {
+    throw corruptGem('package metadata is missing');
+  }
+
+  const data = files.get('data.tar.gz');
+  if (!data) {
+    throw corruptGem('package content (data.tar.gz) is missing');
+  }
+  await gunzipEntry('data.tar.gz', data);
+
+  const checksumsGz = files.get('checksums.yaml.gz');
+  if (checksumsGz) {
+    let checksums: Record<string, Record<string, string>>;
+    try {
+      checksums = yaml.load((await gunzipEntry('checksums.yaml.gz', checksumsGz)).toString('utf-8')) as Record<string, Record<string, string>>;
+    } catch (error) {
+      if (error instanceof InvalidGemError) throw error;
+      throw corruptGem(`checksums.yaml.gz could not be read: ${error}`);
+    }
+
+    // Like RubyGems, checksums for algorithms we don't know are ignored
+    for (const [algorithm, digests] of Object.entries(checksums || {}).sort()) {
+      const hash = CHECKSUM_ALGORITHMS[algorithm];
+      if (!hash || !digests) continue;
+
+      for (const [fileName, expected] of Object.entries(digests).sort()) {
+        const content = files.get(fileName);
+        if (!content || crypto.createHash(hash).update(content).digest('hex') !== expected) {
+          throw corruptGem(`${algorithm} checksum mismatch for ${fileName}`);
         }
-      });
-      
-      // Handle errors
-      extract.on('error', (error) => {
-        reject(new Error(`Tar extraction error: ${error}`));
-      });
-      
-      // Start the extraction
-      const tarStream = new stream.PassThrough();
-      tarStream.end(tarBuffer);
-      tarStream.pipe(extract);
-    });
+      }
+    }
+  }
+
+  let spec: Gemspec;
+  try {
+    spec = loadGemspec(metadata.toString('utf-8'));
   } catch (error) {
-    throw new Error(`Failed to parse gem file: ${error}`);
+    throw corruptGem(`package metadata could not be parsed: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!spec.name || !GEM_NAME_PATTERN.test(spec.name)) {
+    throw new InvalidGemError('There was a problem saving your gem: Name can only include letters, numbers, dashes, and underscores', 403);
   }
+  if (!/[a-zA-Z]/.test(spec.name)) {
+    throw new InvalidGemError('There was a problem saving your gem: Name must include at least one letter', 403);
+  }
+  if (!isValidVersion(spec.version)) {
+    throw corruptGem(`Malformed version number string ${spec.version}`);
+  }
+  // The platform ends up in KV and R2 keys, URLs and pages, e.g. "x86_64-linux" or "arm64-darwin-22"
+  if (typeof spec.platform !== 'string' || !GEM_PLATFORM_PATTERN.test(spec.platform)) {
+    throw corruptGem(`Malformed platform ${JSON.stringify(spec.platform)}`);
+  }
+
+  return spec;
+}
+
+// The regular files packaged in a gem's data.tar.gz, e.g. lib/rack.rb and README.md
+export async function readGemDataFiles(gemFile: ArrayBuffer): Promise<{ path: string; data: Buffer }[]> {
+  const data = new Map(await readGemEntries(gemFile)).get('data.tar.gz');
+  if (!data) {
+    throw corruptGem('package content (data.tar.gz) is missing');
+  }
+
+  const entries = await readTarEntries(await gunzipEntry('data.tar.gz', data));
+  return entries
+    .filter(entry => entry.type === 'file')
+    .map(entry => ({ path: entry.name.replace(/^\.\//, ''), data: entry.data }));
+}
+
+// R2 key of a gem file, e.g. gems/rack-2.2.0.gem or gems/nokogiri-1.16.0-x86_64-linux.gem
+export function gemObjectKey(name: string, version: string, platform?: string): string {
+  return `gems/${gemFileBaseName(name, version, platform)}.gem`;
+}
+
+// R2 key of a legacy quick spec, e.g. quick/Marshal.4.8/rack-2.2.0.gemspec.rz
+export function quickSpecKey(name: string, version: string, platform?: string): string {
+  return `quick/Marshal.4.8/${gemFileBaseName(name, version, platform)}.gemspec.rz`;
+}
+
+// R2 key of the file list of a gem, e.g. contents/rack-2.2.0.json
+export function gemContentsKey(name: string, version: string, platform?: string): string {
+  return `contents/${gemFileBaseName(name, version, platform)}.json`;
+}
+
+// Store the Marshal gemspec of a gem file for /quick/Marshal.4.8/, returning the stored bytes
+export async function saveQuickSpec(r2: R2Bucket, gemFile: ArrayBuffer): Promise<Uint8Array> {
+  const spec = await extractGemspec(gemFile);
+  const data = marshalGemspec(spec);
+  const key = quickSpecKey(spec.name, spec.version, spec.platform);
+
+  console.log('Storing quick spec in R2 with key:', key);
+  await r2.put(key, data);
+
+  return data;
+}
+
+export async function parseGemFile(buffer: ArrayBuffer): Promise<GemMetadata> {
+  console.log('Parsing gem file');
+  
+  const spec = await extractGemspec(buffer);
+  
+  // Extract relevant metadata
+  const metadata: GemMetadata = {
+    name: spec.name,
+    version: spec.version,
+    platform: spec.platform,
+    authors: spec.authors,
+    email: spec.email ? [spec.email].flat() : [],
+    summary: spec.summary,
+    description: spec.description,
+    info: spec.description || spec.summary,
+    homepage: spec.homepage || undefined,
+    licenses: spec.licenses,
+    metadata: spec.metadata,
+    created_at: new Date().toISOString(),
+    dependencies: spec.dependencies.map(dep => ({
+      name: dep.name,
+      requirements: requirementToString(dep.requirement),
+      type: dep.type
+    })),
+    required_ruby_version: requirementToString(spec.required_ruby_version),
+    required_rubygems_version: requirementToString(spec.required_rubygems_version),
+    files: spec.files,
+    executables: spec.executables,
+    // Calculate SHA256 of the gem file
+    sha256: await sha256(buffer),
+    // Get the size of the gem file
+    size: buffer.byteLength
+  };
+  
+  return metadata;
 }
 
 /**
@@ -567,69 +1101,13 @@ async function gunzipBuffer(buffer: ArrayBuffer): Promise<Uint8Array | null> {
   }
 }
 
-export async function extractGemMetadata(gemFile: ArrayBuffer, fileName?: string): Promise<GemMetadata> {
-  try {
-    // Calculate SHA256 hash of the gem file
-    const sha256Hash = await sha256(gemFile);
-    
-    // Convert ArrayBuffer to Buffer for tar-stream
-    const tarBuffer = Buffer.from(gemFile);
-    
-    // Try to parse the gem file
-    try {
-      const metadata = await parseGemFile(gemFile);
-      return {
-        ...metadata,
-        sha: sha256Hash,
-        createdAt: new Date().toISOString(),
-        downloads: 0
-      };
-    } catch (parseError) {
-      console.error('Error parsing gem file:', parseError);
-      
-      // If we have a filename, try to extract info from it
-      if (fileName) {
-        console.log('Trying to extract metadata from filename:', fileName);
-        const filenamePattern = /([a-zA-Z0-9_-]+)-([0-9]+\.[0-9]+\.[0-9]+(?:\.[0-9]+)?)\.gem/;
-        const filenameMatch = fileName.match(filenamePattern);
-
-        if (filenameMatch) {
-          const [_, name, version] = filenameMatch;
-          console.log(`Extracted gem info from provided filename: ${name} ${version}`);
-
-          return {
-            name,
-            version,
-            platform: "ruby",
-            authors: ["Unknown"],
-            info: "Extracted from filename",
-            summary: "Gem uploaded via GemFlare",
-            requirements: [],
-            sha: sha256Hash,
-            createdAt: new Date().toISOString(),
-            downloads: 0
-          };
-        }
-      }
-    }
-    
-    // Fallback to default values
-    return {
-      name: "unknown",
-      version: "0.0.0",
-      platform: "ruby",
-      authors: ["Unknown"],
-      info: "Could not extract metadata",
-      summary: "Gem uploaded via GemFlare",
-      requirements: [],
-      sha: sha256Hash,
-      createdAt: new Date().toISOString(),
-      downloads: 0
-    };
-  } catch (error) {
-    console.error("Error extracting gem metadata:", error);
-    throw new Error(`Failed to extract gem metadata: ${error}`);
-  }
+// Metadata for a newly pushed gem; throws InvalidGemError for gems that can't be accepted
+export async function extractGemMetadata(gemFile: ArrayBuffer): Promise<GemMetadata> {
+  const metadata = await parseGemFile(gemFile);
+  return {
+    ...metadata,
+    downloads: 0
+  };
 }
 
 // Use Web Crypto API for hashing
@@ -654,18 +1132,9 @@ export async function generateSpecsGz(kv: KVNamespace): Promise<ArrayBuffer> {
     // Get all gems
     const gems = await getAllGems(kv);
     
-    // Format: [[name, Gem::Version.new(version), platform], ...]
-    const specs = gems.map(gem => [
-      gem.name,
-      gem.version,
-      gem.platform || 'ruby'
-    ]);
-    
-    console.log('Specs data prepared:', JSON.stringify(specs));
-    
     // Use @hyrious/marshal to create Ruby Marshal format
     console.log('Creating Ruby Marshal format');
-    const marshaledData = dump(specs);
+    const marshaledData = marshalSpecsIndex(gems.filter(gem => !gem.yanked && !isPrerelease(gem.version)));
     console.log('Marshal data created, length:', marshaledData.length);
     
     // Compress with gzip
@@ -740,97 +1209,55 @@ export async function generateValidSpecsGz(): Promise<ArrayBuffer> {
   return bytes.buffer;
 }
 
-// Update specs index files in R2 when a new gem is uploaded
+// The published builds the specs index files list. They are also kept in R2 as JSON, so a push
+// or yank can replace one gem's entries instead of reading every gem from KV.
+type SpecsEntry = Pick<GemMetadata, 'name' | 'version' | 'platform'>;
+
+const SPECS_ENTRIES_KEY = 'specs/entries.json';
+const SPECS_INDEX_WRITE_ATTEMPTS = 10;
+
+const specsEntries = (gems: GemMetadata[]): SpecsEntry[] => gems
+  .filter(gem => !gem.yanked)
+  .map(gem => ({ name: gem.name, version: gem.version, platform: gem.platform || 'ruby' }));
+
+// Write specs.4.8.gz, latest_specs.4.8.gz and prerelease_specs.4.8.gz
+async function writeSpecsIndexFiles(r2: R2Bucket, entries: SpecsEntry[]): Promise<void> {
+  const published = [...entries]
+    .sort((a, b) => a.name.localeCompare(b.name) ||
+      compareVersions(a.version, b.version) ||
+      (a.platform || 'ruby').localeCompare(b.platform || 'ruby'));
+
+  const releases = published.filter(gem => !isPrerelease(gem.version));
+  const prereleases = published.filter(gem => isPrerelease(gem.version));
+
+  // latest_specs only lists the newest release of each name/platform pair
+  const latest = new Map<string, SpecsEntry>();
+  for (const gem of releases) {
+    latest.set(`${gem.name}\0${gem.platform || 'ruby'}`, gem);
+  }
+
+  const indexes: [string, SpecsEntry[]][] = [
+    ['specs.4.8.gz', releases],
+    ['latest_specs.4.8.gz', Array.from(latest.values())],
+    ['prerelease_specs.4.8.gz', prereleases]
+  ];
+
+  for (const [filename, files] of indexes) {
+    console.log(`Uploading ${filename} to R2 with ${files.length} entries`);
+    await r2.put(filename, await gzipData(marshalSpecsIndex(files)));
+  }
+}
+
+// Rebuild the specs index files from every gem
 export async function updateSpecsIndexInR2(r2: R2Bucket, gems: GemMetadata[]): Promise<void> {
   try {
     console.log('Updating specs index files in R2');
     console.log(`Found ${gems.length} gems to include in specs`);
-    
-    // Format: [[name, Gem::Version.new(version), platform], ...]
-    const specs = gems.map(gem => [
-      gem.name,
-      gem.version,
-      gem.platform || 'ruby'
-    ]);
-    
-    console.log('Specs data prepared:', JSON.stringify(specs));
-    
-    // Use @hyrious/marshal to create Ruby Marshal format
-    console.log('Creating Ruby Marshal format');
-    const marshaledData = dump(specs);
-    console.log('Marshal data created, length:', marshaledData.length);
-    
-    // Compress with gzip
-    console.log('Compressing with gzip');
-    const cs = new CompressionStream('gzip');
-    const writer = cs.writable.getWriter();
-    await writer.write(marshaledData);
-    await writer.close();
-    
-    // Read the compressed data
-    console.log('Reading compressed data');
-    const reader = cs.readable.getReader();
-    const chunks = [];
-    
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      if (value) chunks.push(value);
-    }
-    
-    // Combine all chunks into a single ArrayBuffer
-    const gzipTotalLength = chunks.reduce((acc, chunk) => acc + chunk.length, 0);
-    console.log('Compressed data total length:', gzipTotalLength);
-    const gzipResult = new Uint8Array(gzipTotalLength);
-    
-    let gzipOffset = 0;
-    for (const chunk of chunks) {
-      gzipResult.set(chunk, gzipOffset);
-      gzipOffset += chunk.length;
-    }
-    
-    // Upload to R2
-    console.log('Uploading specs.4.8.gz to R2');
-    await r2.put('specs.4.8.gz', gzipResult);
-    console.log('specs.4.8.gz uploaded to R2');
-    
-    console.log('Uploading latest_specs.4.8.gz to R2');
-    await r2.put('latest_specs.4.8.gz', gzipResult); // For simplicity, use the same data
-    console.log('latest_specs.4.8.gz uploaded to R2');
-    
-    // For prerelease, use an empty array
-    console.log('Creating prerelease_specs.4.8.gz');
-    const prereleaseSpecs = dump([]);
-    console.log('Prerelease marshal data created');
-    
-    const prereleaseCs = new CompressionStream('gzip');
-    const prereleaseWriter = prereleaseCs.writable.getWriter();
-    await prereleaseWriter.write(prereleaseSpecs);
-    await prereleaseWriter.close();
-    
-    const prereleaseReader = prereleaseCs.readable.getReader();
-    const prereleaseChunks = [];
-    
-    while (true) {
-      const { done, value } = await prereleaseReader.read();
-      if (done) break;
-      if (value) prereleaseChunks.push(value);
-    }
-    
-    const prereleaseLength = prereleaseChunks.reduce((acc, chunk) => acc + chunk.length, 0);
-    console.log('Prerelease compressed data length:', prereleaseLength);
-    const prereleaseResult = new Uint8Array(prereleaseLength);
-    
-    let prereleaseOffset = 0;
-    for (const chunk of prereleaseChunks) {
-      prereleaseResult.set(chunk, prereleaseOffset);
-      prereleaseOffset += chunk.length;
-    }
-    
-    console.log('Uploading prerelease_specs.4.8.gz to R2');
-    await r2.put('prerelease_specs.4.8.gz', prereleaseResult);
-    console.log('prerelease_specs.4.8.gz uploaded to R2');
-    
+
+    const entries = specsEntries(gems);
+    await r2.put(SPECS_ENTRIES_KEY, JSON.stringify(entries), { httpMetadata: { contentType: 'application/json' } });
+    await writeSpecsIndexFiles(r2, entries);
+
     console.log('All specs index files updated in R2');
   } catch (error) {
     console.error('Error updating specs index in R2:', error);
@@ -838,6 +1265,63 @@ export async function updateSpecsIndexInR2(r2: R2Bucket, gems: GemMetadata[]): P
   }
 }
 
+// Update the specs index files after the versions of one gem change. The entries are replaced with
+// a conditional write; whoever wrote the files last checks that no newer entries were written in
+// the meantime, and writes the files again if there were.
+export async function updateGemSpecsInR2(r2: R2Bucket, kv: KVNamespace, name: string): Promise<void> {
+  const published = specsEntries(await getGemVersions(kv, r2, name));
+
+  for (let attempt = 0; attempt < SPECS_INDEX_WRITE_ATTEMPTS; attempt++) {
+    const object = await r2.get(SPECS_ENTRIES_KEY);
+    if (!object) {
+      // Nothing has been materialized yet, so build everything once
+      await updateSpecsIndexInR2(r2, await getAllGems(kv));
+      return;
+    }
+
+    const entries = [...(await object.json<SpecsEntry[]>()).filter(entry => entry.name !== name), ...published];
+    const written = await r2.put(SPECS_ENTRIES_KEY, JSON.stringify(entries), {
+      httpMetadata: { contentType: 'application/json' },
+      onlyIf: { etagMatches: object.etag }
+    });
+    if (!written) {
+      console.log('Specs entries changed during update, retrying');
+      continue;
+    }
+
+    let etag = written.etag;
+    let files = entries;
+    for (;;) {
+      await writeSpecsIndexFiles(r2, files);
+
+      const latest = await r2.head(SPECS_ENTRIES_KEY);
+      if (!latest || latest.etag === etag) {
+        return;
+      }
+
+      console.log('Specs entries changed while writing the specs files, writing them again');
+      const reread = await r2.get(SPECS_ENTRIES_KEY);
+      if (!reread) {
+        return;
+      }
+      etag = reread.etag;
+      files = await reread.json<SpecsEntry[]>();
+    }
+  }
+
+  throw new Error(`Could not update the specs entries of ${name}`);
+}
+
+// Format: [[name, Gem::Version.new(version), platform], ...]
+function marshalSpecsIndex(gems: SpecsEntry[]): Uint8Array {
+  return dump(gems.map(gem => [gem.name, marshalVersion(gem.version), gem.platform || 'ruby']));
+}
+
+async function gzipData(data: Uint8Array): Promise<Uint8Array> {
+  const compressed = new Response(new Blob([data]).stream().pipeThrough(new CompressionStream('gzip')));
+  return new Uint8Array(await compressed.arrayBuffer());
+}
+
 // Get specs index file from R2 or generate a default one if not found
 export async function getSpecsIndexFromR2(r2: R2Bucket, filename: string): Promise<ArrayBuffer> {
   try {
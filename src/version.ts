@@ -0,0 +1,152 @@
+// Version ordering and requirement matching compatible with Gem::Version and Gem::Requirement
+// https://github.com/rubygems/rubygems/blob/master/lib/rubygems/version.rb
+
+export type RequirementOperator = '=' | '!=' | '>' | '<' | '>=' | '<=' | '~>';
+
+type Segment = number | string;
+
+const VERSION_PATTERN = /^[0-9]+(?:\.[0-9a-zA-Z]+)*(?:-[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+const REQUIREMENT_PATTERN = /^\s*(=|!=|>|<|>=|<=|~>)?\s*([0-9]+(?:\.[0-9a-zA-Z]+)*(?:-[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?)\s*$/;
+
+export function isValidVersion(version: string): boolean {
+  return VERSION_PATTERN.test(version.trim());
+}
+
+// Gem::Version treats "1.0.0-beta" as "1.0.0.pre.beta"
+function normalize(version: string): string {
+  return version.trim().replace(/-/g, '.pre.');
+}
+
+function segments(version: string): Segment[] {
+  return (normalize(version).match(/[0-9]+|[a-z]+/gi) || []).map(s => /^\d+$/.test(s) ? parseInt(s, 10) : s);
+}
+
+// Segments with trailing zeros dropped from the numeric and prerelease parts, so "1.0" == "1"
+function canonicalSegments(version: string): Segment[] {
+  const all = segments(version);
+  const stringStart = all.findIndex(s => typeof s === 'string');
+  const numeric = stringStart === -1 ? all : all.slice(0, stringStart);
+  const prerelease = stringStart === -1 ? [] : all.slice(stringStart);
+
+  const trim = (parts: Segment[]) => {
+    const result = [...parts];
+    while (result.length > 0 && result[result.length - 1] === 0) {
+      result.pop();
+    }
+    return result;
+  };
+
+  return [...trim(numeric), ...trim(prerelease)];
+}
+
+// Compare two versions like Gem::Version#<=>, e.g. 1.0.0.beta < 1.0.0 < 1.0.1
+export function compareVersions(a: string, b: string): number {
+  const left = canonicalSegments(a);
+  const right = canonicalSegments(b);
+  const length = Math.max(left.length, right.length);
+
+  for (let i = 0; i < length; i++) {
+    const lhs = left[i] ?? 0;
+    const rhs = right[i] ?? 0;
+
+    if (lhs === rhs) continue;
+    if (typeof lhs === 'string' && typeof rhs === 'number') return -1;
+    if (typeof lhs === 'number' && typeof rhs === 'string') return 1;
+    return lhs < rhs ? -1 : 1;
+  }
+
+  return 0;
+}
+
+// A version is a prerelease when it contains a letter, e.g. 1.0.0.rc1
+export function isPrerelease(version: string): boolean {
+  return /[a-zA-Z]/.test(version);
+}
+
+// The release a version belongs to, e.g. 1.2.0.rc1 -> 1.2.0
+function releaseVersion(version: string): string {
+  const all = segments(version);
+  const stringStart = all.findIndex(s => typeof s === 'string');
+  return (stringStart === -1 ? all : all.slice(0, stringStart)).join('.');
+}
+
+// The upper bound used by "~>", e.g. 2.1 -> 3 and 2.1.3 -> 2.2
+function bumpVersion(version: string): string {
+  const all = segments(version);
+  while (all.some(s => typeof s === 'string')) {
+    all.pop();
+  }
+  if (all.length > 1) {
+    all.pop();
+  }
+  all[all.length - 1] = (all[all.length - 1] as number) + 1;
+  return all.join('.');
+}
+
+// Sort version strings, oldest first
+function sortVersions(versions: string[]): string[] {
+  return [...versions].sort(compareVersions);
+}
+
+export interface RequirementClause {
+  operator: RequirementOperator;
+  version: string;
+}
+
+// Parse a requirement list such as "~> 2.1, >= 2.1.1" (or "~> 2.1&>= 2.1.1" from the compact index)
+export function parseRequirement(requirement: string): RequirementClause[] {
+  const clauses = requirement.split(/[,&]/).map(clause => clause.trim()).filter(Boolean);
+
+  if (clauses.length === 0) {
+    return [{ operator: '>=', version: '0' }];
+  }
+
+  return clauses.map(clause => {
+    const match = clause.match(REQUIREMENT_PATTERN);
+    if (!match) {
+      throw new Error(`Illformed requirement [${JSON.stringify(clause)}]`);
+    }
+    return { operator: (match[1] || '=') as RequirementOperator, version: match[2] };
+  });
+}
+
+// Format a requirement the way Gem::Requirement#to_s does, e.g. "~> 2.1, >= 2.1.1"
+export function formatRequirement(requirement: string | RequirementClause[]): string {
+  const clauses = typeof requirement === 'string' ? parseRequirement(requirement) : requirement;
+  return clauses.map(({ operator, version }) => `${operator} ${version}`).join(', ');
+}
+
+function satisfiesClause(version: string, { operator, version: required }: RequirementClause): boolean {
+  const comparison = compareVersions(version, required);
+
+  switch (operator) {
+    case '=': return comparison === 0;
+    case '!=': return comparison !== 0;
+    case '>': return comparison > 0;
+    case '<': return comparison < 0;
+    case '>=': return comparison >= 0;
+    case '<=': return comparison <= 0;
+    case '~>': return comparison >= 0 && compareVersions(releaseVersion(version), bumpVersion(required)) < 0;
+  }
+}
+
+// Whether a version satisfies every clause of a requirement, like Gem::Requirement#satisfied_by?
+export function satisfiesRequirement(version: string, requirement: string | RequirementClause[]): boolean {
+  const clauses = typeof requirement === 'string' ? parseRequirement(requirement) : requirement;
+  return clauses.every(clause => satisfiesClause(version, clause));
+}
+
+// The newest version matching a requirement, skipping prereleases unless asked for
+export function latestMatchingVersion(versions: string[], requirement = '>= 0', includePrerelease = false): string | null {
+  const clauses = parseRequirement(requirement);
+  const candidates = versions
+    .filter(version => includePrerelease || !isPrerelease(version))
+    .filter(version => satisfiesRequirement(version, clauses));
+
+  return candidates.length > 0 ? sortVersions(candidates)[candidates.length - 1] : null;
+}
+
+// The newest release, or the newest prerelease when there are no releases
+export function latestVersion(versions: string[]): string | null {
+  return latestMatchingVersion(versions) ?? latestMatchingVersion(versions, '>= 0', true);
+}
@@ -0,0 +1,135 @@
+// In-memory stand-ins for the KV namespace and R2 bucket bindings, covering the parts of the
+// Workers APIs GemFlare uses
+import { CloudflareBindings } from '../src/types';
+
+interface StoredObject {
+  data: Uint8Array;
+  etag: string;
+  customMetadata?: Record<string, string>;
+}
+
+export class MemoryKV {
+  entries = new Map<string, { value: string; metadata?: unknown }>();
+
+  async get(key: string, type?: 'text' | 'json'): Promise<unknown> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    return type === 'json' ? JSON.parse(entry.value) : entry.value;
+  }
+
+  async getWithMetadata(key: string): Promise<{ value: string | null; metadata: unknown }> {
+    const entry = this.entries.get(key);
+    return { value: entry ? entry.value : null, metadata: entry?.metadata ?? null };
+  }
+
+  async put(key: string, value: string, options: { metadata?: unknown } = {}): Promise<void> {
+    this.entries.set(key, { value, metadata: options.metadata });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async list({ prefix = '', cursor, limit = 1000 }: { prefix?: string; cursor?: string; limit?: number } = {}) {
+    const names = [...this.entries.keys()].filter(name => name.startsWith(prefix)).sort();
+    const start = cursor ? parseInt(cursor, 10) : 0;
+    const page = names.slice(start, start + limit);
+    const complete = start + limit >= names.length;
+
+    return {
+      keys: page.map(name => ({ name, metadata: this.entries.get(name)!.metadata })),
+      list_complete: complete,
+      cursor: complete ? undefined : String(start + limit)
+    };
+  }
+}
+
+export class MemoryR2 {
+  objects = new Map<string, StoredObject>();
+  private writes = 0;
+
+  private describe(key: string, object: StoredObject) {
+    return {
+      key,
+      etag: object.etag,
+      httpEtag: `"${object.etag}"`,
+      size: object.data.length,
+      customMetadata: object.customMetadata
+    };
+  }
+
+  async head(key: string) {
+    const object = this.objects.get(key);
+    return object ? this.describe(key, object) : null;
+  }
+
+  async get(key: string, options: { onlyIf?: { etagMatches?: string }; range?: { offset: number; length?: number } } = {}) {
+    const object = this.objects.get(key);
+    if (!object) {
+      return null;
+    }
+    if (options.onlyIf?.etagMatches && options.onlyIf.etagMatches !== object.etag) {
+      return this.describe(key, object);
+    }
+
+    const { offset = 0, length = object.data.length - offset } = options.range || {};
+    const data = object.data.slice(offset, offset + length);
+
+    return {
+      ...this.describe(key, object),
+      body: new Response(data).body,
+      text: async () => new TextDecoder().decode(data),
+      json: async () => JSON.parse(new TextDecoder().decode(data)),
+      arrayBuffer: async () => data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength)
+    };
+  }
+
+  async put(
+    key: string,
+    value: string | ArrayBuffer | ArrayBufferView,
+    options: { onlyIf?: { etagMatches?: string; etagDoesNotMatch?: string }; customMetadata?: Record<string, string> } = {}
+  ) {
+    const existing = this.objects.get(key);
+    if (options.onlyIf?.etagMatches && existing?.etag !== options.onlyIf.etagMatches) {
+      return null;
+    }
+    if (options.onlyIf?.etagDoesNotMatch === '*' && existing) {
+      return null;
+    }
+
+    const data = typeof value === 'string'
+      ? new TextEncoder().encode(value)
+      : value instanceof ArrayBuffer
+        ? new Uint8Array(value.slice(0))
+        : new Uint8Array(value.buffer.slice(value.byteOffset, value.byteOffset + value.byteLength));
+    const object = { data, etag: `etag-${++this.writes}`, customMetadata: options.customMetadata };
+    this.objects.set(key, object);
+
+    return this.describe(key, object);
+  }
+
+  async delete(keys: string | string[]): Promise<void> {
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      this.objects.delete(key);
+    }
+  }
+
+  async text(key: string): Promise<string | null> {
+    const object = this.objects.get(key);
+    return object ? new TextDecoder().decode(object.data) : null;
+  }
+}
+
+export function memoryBindings(vars: Partial<CloudflareBindings> = {}) {
+  const kv = new MemoryKV();
+  const r2 = new MemoryR2();
+  const env = {
+    GEMFLARE_KV: kv as unknown as KVNamespace,
+    GEMFLARE_BUCKET: r2 as unknown as R2Bucket,
+    ...vars
+  } as CloudflareBindings;
+
+  return { env, kv, r2 };
+}
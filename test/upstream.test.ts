@@ -0,0 +1,230 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  fetchUpstreamGem,
+  fetchUpstreamInfo,
+  isLocalName,
+  parseInfoContent,
+  refreshUpstreamVersions
+} from '../src/upstream';
+import { memoryBindings } from './bindings';
+
+const UPSTREAM_URL = 'https://upstream.test/';
+const MIRROR_KEY = 'compact/mirror/versions';
+const HEADER = 'created_at: 2024-01-01T00:00:00Z\n---\n';
+
+// Answer upstream requests from a map of paths: a string body, an HTTP status, or an Error for a
+// server that can't be reached
+function stubUpstream(files: Record<string, string | number | Error>) {
+  const fetchMock = vi.fn(async (input: string) => {
+    const path = input.slice(UPSTREAM_URL.length - 1);
+    const file = files[path];
+
+    if (file instanceof Error) {
+      throw file;
+    }
+    if (file === undefined || typeof file === 'number') {
+      return new Response('error', { status: file ?? 404 });
+    }
+    return new Response(file);
+  });
+
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+// A mirror with one local gem, "local", and a reservation for "acme-*"
+async function mirrorBindings() {
+  const bindings = memoryBindings({ UPSTREAM_URL });
+  const { kv, r2 } = bindings;
+
+  await kv.put('gem:local:1.0.0', JSON.stringify({ name: 'local', version: '1.0.0' }));
+  await kv.put('reservation:acme-*', JSON.stringify({ pattern: 'acme-*', owners: ['admin'], createdBy: 'admin', createdAt: '2024-01-01T00:00:00Z' }));
+  await r2.put('compact/names', '---\nlocal\n');
+  await r2.put('compact/versions', 'created_at: 2024-02-01T00:00:00Z\n---\nlocal 1.0.0 abc\n');
+
+  return bindings;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('parseInfoContent', () => {
+  it('reads versions, platforms and runtime dependencies', () => {
+    const gems = parseInfoContent('nokogiri', [
+      '---',
+      '1.16.0 racc:~> 1.4|checksum:abc,ruby:>= 3.0',
+      '1.16.0-x86_64-linux racc:~> 1.4&>= 1.4.1,mini_portile2:~> 2.8|checksum:def',
+      '1.15.0 |checksum:ghi',
+      ''
+    ].join('\n'));
+
+    expect(gems).toEqual([
+      {
+        name: 'nokogiri',
+        version: '1.16.0',
+        platform: 'ruby',
+        dependencies: [{ name: 'racc', requirements: '~> 1.4', type: 'runtime' }]
+      },
+      {
+        name: 'nokogiri',
+        version: '1.16.0',
+        platform: 'x86_64-linux',
+        dependencies: [
+          { name: 'racc', requirements: '~> 1.4, >= 1.4.1', type: 'runtime' },
+          { name: 'mini_portile2', requirements: '~> 2.8', type: 'runtime' }
+        ]
+      },
+      { name: 'nokogiri', version: '1.15.0', platform: 'ruby', dependencies: [] }
+    ]);
+  });
+});
+
+describe('isLocalName', () => {
+  it('treats hosted and reserved names as local', async () => {
+    const { env } = await mirrorBindings();
+
+    expect(await isLocalName(env, 'local')).toBe(true);
+    expect(await isLocalName(env, 'acme-core')).toBe(true);
+    expect(await isLocalName(env, 'rack')).toBe(false);
+  });
+
+  it('counts gems whose every version is yanked', async () => {
+    const { env, kv } = memoryBindings({ UPSTREAM_URL });
+    await kv.put('gem:gone:1.0.0', JSON.stringify({ name: 'gone', version: '1.0.0', yanked: true }));
+
+    expect(await isLocalName(env, 'gone')).toBe(true);
+  });
+});
+
+describe('fetchUpstreamInfo', () => {
+  it('returns the upstream file', async () => {
+    const { env } = memoryBindings({ UPSTREAM_URL });
+    stubUpstream({ '/info/rack': '---\n2.2.0 |checksum:abc\n' });
+
+    expect(await fetchUpstreamInfo(env, 'rack')).toBe('---\n2.2.0 |checksum:abc\n');
+  });
+
+  it('returns null when upstream lacks the gem, fails or is unreachable', async () => {
+    const { env } = memoryBindings({ UPSTREAM_URL });
+    stubUpstream({ '/info/broken': 503, '/info/down': new TypeError('fetch failed') });
+
+    expect(await fetchUpstreamInfo(env, 'missing')).toBeNull();
+    expect(await fetchUpstreamInfo(env, 'broken')).toBeNull();
+    expect(await fetchUpstreamInfo(env, 'down')).toBeNull();
+  });
+
+  it('does nothing without UPSTREAM_URL', async () => {
+    const { env } = memoryBindings();
+    const fetchMock = stubUpstream({ '/info/rack': '---\n' });
+
+    expect(await fetchUpstreamInfo(env, 'rack')).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('fetchUpstreamGem', () => {
+  it('caches downloaded gems in R2 and serves later requests from there', async () => {
+    const { env, r2 } = memoryBindings({ UPSTREAM_URL });
+    const fetchMock = stubUpstream({ '/gems/rack-2.2.0.gem': 'gem data' });
+
+    const first = await fetchUpstreamGem(env, 'rack-2.2.0.gem');
+    expect(new TextDecoder().decode(first as ArrayBuffer)).toBe('gem data');
+    expect(await r2.text('upstream/gems/rack-2.2.0.gem')).toBe('gem data');
+
+    const second = await fetchUpstreamGem(env, 'rack-2.2.0.gem');
+    expect(await new Response(second).text()).toBe('gem data');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns null and caches nothing when upstream fails', async () => {
+    const { env, r2 } = memoryBindings({ UPSTREAM_URL });
+    stubUpstream({ '/gems/broken-1.0.0.gem': 500, '/gems/down-1.0.0.gem': new TypeError('fetch failed') });
+
+    expect(await fetchUpstreamGem(env, 'missing-1.0.0.gem')).toBeNull();
+    expect(await fetchUpstreamGem(env, 'broken-1.0.0.gem')).toBeNull();
+    expect(await fetchUpstreamGem(env, 'down-1.0.0.gem')).toBeNull();
+    expect(r2.objects.size).toBe(0);
+  });
+});
+
+describe('refreshUpstreamVersions', () => {
+  it('merges upstream and local lines, leaving out upstream lines for local names', async () => {
+    const { env, r2 } = await mirrorBindings();
+    stubUpstream({ '/versions': `${HEADER}rack 2.2.0 aaa\nlocal 0.1.0 bbb\nacme-core 1.0.0 ccc\n` });
+
+    expect(await refreshUpstreamVersions(env)).toBe(true);
+    expect(await r2.text(MIRROR_KEY)).toBe(`${HEADER}rack 2.2.0 aaa\nlocal 1.0.0 abc\n`);
+  });
+
+  it('appends only the lines upstream gained since the last refresh', async () => {
+    const { env, r2 } = await mirrorBindings();
+    const upstream = { '/versions': `${HEADER}rack 2.2.0 aaa\n` };
+    stubUpstream(upstream);
+    await refreshUpstreamVersions(env);
+
+    // A push appends its line to the mirrored file between refreshes
+    const pushed = `${await r2.text(MIRROR_KEY)}local 1.1.0 def\n`;
+    await r2.put(MIRROR_KEY, pushed);
+
+    upstream['/versions'] += 'rails 7.0.0 ddd\nlocal 2.0.0 eee\n';
+    expect(await refreshUpstreamVersions(env)).toBe(true);
+    expect(await r2.text(MIRROR_KEY)).toBe(`${pushed}rails 7.0.0 ddd\n`);
+  });
+
+  it('rebuilds the mirrored file when upstream changes its header', async () => {
+    const { env, r2 } = await mirrorBindings();
+    const upstream = { '/versions': `${HEADER}rack 2.2.0 aaa\nrails 7.0.0 ddd\n` };
+    stubUpstream(upstream);
+    await refreshUpstreamVersions(env);
+
+    upstream['/versions'] = 'created_at: 2024-03-01T00:00:00Z\n---\nrack 2.2.0,3.0.0 fff\n';
+    expect(await refreshUpstreamVersions(env)).toBe(true);
+    expect(await r2.text(MIRROR_KEY)).toBe('created_at: 2024-03-01T00:00:00Z\n---\nrack 2.2.0,3.0.0 fff\nlocal 1.0.0 abc\n');
+  });
+
+  it('rebuilds the mirrored file when the upstream file shrinks', async () => {
+    const { env, r2 } = await mirrorBindings();
+    const upstream = { '/versions': `${HEADER}rack 2.2.0 aaa\nrails 7.0.0 ddd\n` };
+    stubUpstream(upstream);
+    await refreshUpstreamVersions(env);
+
+    upstream['/versions'] = `${HEADER}rake 13.0.0 ggg\n`;
+    expect(await refreshUpstreamVersions(env)).toBe(true);
+    expect(await r2.text(MIRROR_KEY)).toBe(`${HEADER}rake 13.0.0 ggg\nlocal 1.0.0 abc\n`);
+  });
+
+  it('keeps the mirrored file when upstream fails', async () => {
+    const { env, r2 } = await mirrorBindings();
+    const upstream: Record<string, string | number> = { '/versions': `${HEADER}rack 2.2.0 aaa\n` };
+    stubUpstream(upstream);
+    await refreshUpstreamVersions(env);
+    const mirrored = await r2.text(MIRROR_KEY);
+
+    upstream['/versions'] = 502;
+    expect(await refreshUpstreamVersions(env)).toBe(false);
+    expect(await r2.text(MIRROR_KEY)).toBe(mirrored);
+  });
+
+  it('records no progress when the mirrored file cannot be written', async () => {
+    const { env, r2 } = await mirrorBindings();
+    const upstream = { '/versions': `${HEADER}rack 2.2.0 aaa\n` };
+    stubUpstream(upstream);
+    await refreshUpstreamVersions(env);
+    const state = await r2.text('upstream/versions.json');
+
+    // Every conditional write of the mirrored file loses to another writer
+    const put = r2.put.bind(r2);
+    vi.spyOn(r2, 'put').mockImplementation((key, value, options) => key === MIRROR_KEY ? Promise.resolve(null) : put(key, value, options));
+
+    upstream['/versions'] = 'created_at: 2024-03-01T00:00:00Z\n---\nrails 7.0.0 ddd\n';
+    await expect(refreshUpstreamVersions(env)).rejects.toThrow('Could not rebuild the mirrored versions file');
+    expect(await r2.text('upstream/versions.json')).toBe(state);
+  });
+});
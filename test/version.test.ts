@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareVersions,
+  formatRequirement,
+  isPrerelease,
+  latestMatchingVersion,
+  latestVersion,
+  parseRequirement,
+  satisfiesRequirement
+} from '../src/version';
+
+describe('compareVersions', () => {
+  it('compares numeric segments as numbers', () => {
+    expect(compareVersions('1.10.0', '1.9.0')).toBe(1);
+    expect(compareVersions('1.2.3', '1.2.4')).toBe(-1);
+    expect(compareVersions('2', '10')).toBe(-1);
+  });
+
+  it('ignores trailing zero segments', () => {
+    expect(compareVersions('1.0', '1')).toBe(0);
+    expect(compareVersions('1.0.0', '1.0')).toBe(0);
+    expect(compareVersions('1.0.1', '1.0')).toBe(1);
+  });
+
+  it('orders prereleases before their release', () => {
+    expect(compareVersions('1.0.0.beta', '1.0.0')).toBe(-1);
+    expect(compareVersions('1.0.0', '1.0.0.rc1')).toBe(1);
+    expect(compareVersions('1.0.0.rc1', '0.9.9')).toBe(1);
+  });
+
+  it('orders prereleases among themselves', () => {
+    expect(compareVersions('1.0.0.alpha', '1.0.0.beta')).toBe(-1);
+    expect(compareVersions('1.0.0.rc1', '1.0.0.rc2')).toBe(-1);
+    expect(compareVersions('1.0.0.rc10', '1.0.0.rc2')).toBe(1);
+  });
+
+  it('treats a dash as .pre.', () => {
+    expect(compareVersions('1.0.0-beta', '1.0.0.pre.beta')).toBe(0);
+    expect(compareVersions('1.0.0-beta', '1.0.0')).toBe(-1);
+  });
+});
+
+describe('isPrerelease', () => {
+  it('detects letters in a version', () => {
+    expect(isPrerelease('1.0.0.rc1')).toBe(true);
+    expect(isPrerelease('1.0.0-beta')).toBe(true);
+    expect(isPrerelease('1.0.0')).toBe(false);
+  });
+});
+
+describe('parseRequirement', () => {
+  it('reads every clause of a requirement list', () => {
+    expect(parseRequirement('~> 2.1, >= 2.1.1')).toEqual([
+      { operator: '~>', version: '2.1' },
+      { operator: '>=', version: '2.1.1' }
+    ]);
+  });
+
+  it('reads the compact index separator', () => {
+    expect(parseRequirement('~> 2.1&>= 2.1.1')).toEqual([
+      { operator: '~>', version: '2.1' },
+      { operator: '>=', version: '2.1.1' }
+    ]);
+  });
+
+  it('defaults to = for a bare version and >= 0 for an empty requirement', () => {
+    expect(parseRequirement('1.2')).toEqual([{ operator: '=', version: '1.2' }]);
+    expect(parseRequirement('')).toEqual([{ operator: '>=', version: '0' }]);
+  });
+
+  it('rejects ill-formed requirements', () => {
+    expect(() => parseRequirement('=> 1.0')).toThrow('Illformed requirement');
+    expect(() => parseRequirement('>= one')).toThrow('Illformed requirement');
+  });
+});
+
+describe('formatRequirement', () => {
+  it('prints requirements like Gem::Requirement#to_s', () => {
+    expect(formatRequirement('~>2.1&>=2.1.1')).toBe('~> 2.1, >= 2.1.1');
+    expect(formatRequirement('2.1')).toBe('= 2.1');
+  });
+});
+
+describe('satisfiesRequirement', () => {
+  it('evaluates =', () => {
+    expect(satisfiesRequirement('1.0', '= 1.0.0')).toBe(true);
+    expect(satisfiesRequirement('1.0.1', '= 1.0')).toBe(false);
+  });
+
+  it('evaluates !=', () => {
+    expect(satisfiesRequirement('1.0.1', '!= 1.0')).toBe(true);
+    expect(satisfiesRequirement('1.0', '!= 1.0')).toBe(false);
+  });
+
+  it('evaluates >', () => {
+    expect(satisfiesRequirement('1.0.1', '> 1.0')).toBe(true);
+    expect(satisfiesRequirement('1.0', '> 1.0')).toBe(false);
+  });
+
+  it('evaluates <', () => {
+    expect(satisfiesRequirement('0.9', '< 1.0')).toBe(true);
+    expect(satisfiesRequirement('1.0.0.rc1', '< 1.0')).toBe(true);
+    expect(satisfiesRequirement('1.0', '< 1.0')).toBe(false);
+  });
+
+  it('evaluates >=', () => {
+    expect(satisfiesRequirement('1.0', '>= 1.0')).toBe(true);
+    expect(satisfiesRequirement('1.0.0.rc1', '>= 1.0')).toBe(false);
+  });
+
+  it('evaluates <=', () => {
+    expect(satisfiesRequirement('1.0', '<= 1.0')).toBe(true);
+    expect(satisfiesRequirement('1.0.1', '<= 1.0')).toBe(false);
+  });
+
+  it('evaluates ~> with two segments up to the next major version', () => {
+    expect(satisfiesRequirement('2.1', '~> 2.1')).toBe(true);
+    expect(satisfiesRequirement('2.9.9', '~> 2.1')).toBe(true);
+    expect(satisfiesRequirement('2.0.9', '~> 2.1')).toBe(false);
+    expect(satisfiesRequirement('3.0', '~> 2.1')).toBe(false);
+    expect(satisfiesRequirement('3.0.0.rc1', '~> 2.1')).toBe(false);
+  });
+
+  it('evaluates ~> with three segments up to the next minor version', () => {
+    expect(satisfiesRequirement('2.1.0', '~> 2.1.0')).toBe(true);
+    expect(satisfiesRequirement('2.1.9', '~> 2.1.0')).toBe(true);
+    expect(satisfiesRequirement('2.2.0', '~> 2.1.0')).toBe(false);
+    expect(satisfiesRequirement('2.0.9', '~> 2.1.0')).toBe(false);
+  });
+
+  it('requires every clause to match', () => {
+    expect(satisfiesRequirement('2.1.1', '~> 2.1, >= 2.1.1')).toBe(true);
+    expect(satisfiesRequirement('2.1.0', '~> 2.1, >= 2.1.1')).toBe(false);
+  });
+});
+
+describe('latestMatchingVersion', () => {
+  const versions = ['1.0.0', '2.0.0', '2.1.0', '2.1.5', '2.2.0.rc1', '3.0.0'];
+
+  it('picks the newest matching release', () => {
+    expect(latestMatchingVersion(versions, '~> 2.1.0')).toBe('2.1.5');
+    expect(latestMatchingVersion(versions, '~> 2.1')).toBe('2.1.5');
+    expect(latestMatchingVersion(versions)).toBe('3.0.0');
+  });
+
+  it('includes prereleases only when asked', () => {
+    expect(latestMatchingVersion(versions, '~> 2.1', true)).toBe('2.2.0.rc1');
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(latestMatchingVersion(versions, '> 3.0')).toBeNull();
+  });
+});
+
+describe('latestVersion', () => {
+  it('prefers releases over newer prereleases', () => {
+    expect(latestVersion(['0.1.0', '0.3.0.rc1'])).toBe('0.1.0');
+  });
+
+  it('falls back to the newest prerelease', () => {
+    expect(latestVersion(['0.2.0.rc1', '0.3.0.rc1'])).toBe('0.3.0.rc1');
+    expect(latestVersion([])).toBeNull();
+  });
+});